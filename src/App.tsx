@@ -1,14 +1,17 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { CallProvider } from './context/CallContext';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
 import VideoRoom from './components/VideoRoom';
-// import axiosInstance from './axios.config';
+import Lobby from './components/Lobby';
+import InvitePage from './components/InvitePage';
+import RecordingsPage from './components/RecordingsPage';
 
 // Protected route component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
   
   
   if (isLoading) {
@@ -19,7 +22,8 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     );
   }
   
-  return isAuthenticated ? <>{children}</> : <Navigate to="/" />;
+  // Remember where we were headed so login can send us back, e.g. to an invite link
+  return isAuthenticated ? <>{children}</> : <Navigate to="/" state={{ from: location }} />;
 };
 
 const AppRoutes: React.FC = () => {
@@ -35,6 +39,22 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/join/:sessionId" 
+        element={
+          <ProtectedRoute>
+            <InvitePage />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/room/:sessionId/lobby" 
+        element={
+          <ProtectedRoute>
+            <Lobby />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/room/:sessionId" 
         element={
@@ -43,6 +63,14 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/studios/:id/recordings" 
+        element={
+          <ProtectedRoute>
+            <RecordingsPage />
+          </ProtectedRoute>
+        } 
+      />
       <Route path="*" element={<Navigate to="/" />} />
     </Routes>
   );
@@ -0,0 +1,22 @@
+import { User } from '../types';
+import { apiClient } from './client';
+import { AuthResponse, CurrentUserResponse, LoginRequest, SignupRequest } from './types';
+
+export const login = async (credentials: LoginRequest): Promise<AuthResponse> => {
+  const response = await apiClient.post<AuthResponse>('api/v1/auth/login', credentials);
+  return response.data;
+};
+
+export const signup = async (details: SignupRequest): Promise<AuthResponse> => {
+  const response = await apiClient.post<AuthResponse>('api/v1/auth/signup', details);
+  return response.data;
+};
+
+// Looks up the user behind a token; defaults to the stored one
+export const fetchCurrentUser = async (token?: string): Promise<User> => {
+  const response = await apiClient.get<CurrentUserResponse>(
+    'api/v1/auth/me',
+    token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
+  );
+  return response.data.user;
+};
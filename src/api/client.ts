@@ -0,0 +1,56 @@
+import axios from 'axios';
+import { environment } from '../environment';
+
+const TOKEN_KEY = 'authToken';
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+export const setAuthToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
+export const clearAuthToken = () => localStorage.removeItem(TOKEN_KEY);
+
+// Shared client for every backend call; it signs requests with the stored token
+export const apiClient = axios.create({
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+apiClient.interceptors.request.use(config => {
+  // Read per request, since runtime config can change it after this module loads
+  config.baseURL = environment.apiBaseUrl;
+  const token = getAuthToken();
+  // Callers may still pass their own header, e.g. to check a token before storing it
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+type UnauthorizedHandler = () => void;
+
+const unauthorizedHandlers = new Set<UnauthorizedHandler>();
+
+// Called whenever the backend rejects our token. Returns an unsubscribe function.
+export const onUnauthorized = (handler: UnauthorizedHandler): (() => void) => {
+  unauthorizedHandlers.add(handler);
+  return () => {
+    unauthorizedHandlers.delete(handler);
+  };
+};
+
+// A 401 from these means wrong credentials, not an expired session
+const CREDENTIAL_ENDPOINTS = ['api/v1/auth/login', 'api/v1/auth/signup'];
+
+apiClient.interceptors.response.use(
+  response => response,
+  error => {
+    if (
+      axios.isAxiosError(error) &&
+      error.response?.status === 401 &&
+      !CREDENTIAL_ENDPOINTS.includes(error.config?.url ?? '') &&
+      getAuthToken()
+    ) {
+      unauthorizedHandlers.forEach(handler => handler());
+    }
+    return Promise.reject(error);
+  }
+);
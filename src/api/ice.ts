@@ -0,0 +1,8 @@
+import { apiClient } from './client';
+import { IceServersResponse } from './types';
+
+// Short-lived TURN credentials (plus STUN servers) for the next call
+export const fetchIceServers = async (): Promise<IceServersResponse> => {
+  const response = await apiClient.get<IceServersResponse>('api/v1/turn/credentials');
+  return response.data;
+};
@@ -0,0 +1,17 @@
+import { apiClient } from './client';
+import {
+  CreateInviteRequest,
+  CreateInviteResponse,
+  ValidateInviteRequest,
+  ValidateInviteResponse,
+} from './types';
+
+export const createInvite = async (request: CreateInviteRequest): Promise<CreateInviteResponse['invite']> => {
+  const response = await apiClient.post<CreateInviteResponse>('api/v1/studio/invite', request);
+  return response.data.invite;
+};
+
+export const validateInvite = async (request: ValidateInviteRequest): Promise<ValidateInviteResponse> => {
+  const response = await apiClient.post<ValidateInviteResponse>('api/v1/studio/invite/validate', request);
+  return response.data;
+};
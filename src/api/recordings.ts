@@ -0,0 +1,22 @@
+import { apiClient } from './client';
+import { ListRecordingTracksResponse, RecordingTrackRecord } from './types';
+
+const recordingsPath = (studioId: string) => `api/v1/studio/${encodeURIComponent(studioId)}/recordings`;
+
+export const listRecordingTracks = async (studioId: string): Promise<RecordingTrackRecord[]> => {
+  const response = await apiClient.get<ListRecordingTracksResponse>(recordingsPath(studioId));
+  return response.data.tracks ?? [];
+};
+
+export const downloadRecordingTrack = async (studioId: string, trackId: string): Promise<Blob> => {
+  const response = await apiClient.get<Blob>(`${recordingsPath(studioId)}/${encodeURIComponent(trackId)}/download`, {
+    responseType: 'blob',
+  });
+  return response.data;
+};
+
+// The backend bundles every track of the studio into one archive
+export const downloadRecordingArchive = async (studioId: string): Promise<Blob> => {
+  const response = await apiClient.get<Blob>(`${recordingsPath(studioId)}/archive`, { responseType: 'blob' });
+  return response.data;
+};
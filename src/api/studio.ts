@@ -0,0 +1,56 @@
+import { apiClient } from './client';
+import {
+  ChangeRoleRequest,
+  CreateStudioRequest,
+  CreateStudioResponse,
+  JoinStudioRequest,
+  JoinStudioResponse,
+  ListStudiosRequest,
+  ListStudiosResponse,
+  LockStudioRequest,
+  RemoveParticipantRequest,
+  StudioRecord,
+  UpdateStudioRequest,
+  UpdateStudioResponse,
+} from './types';
+
+export const createStudio = async (studio: CreateStudioRequest): Promise<CreateStudioResponse['session']> => {
+  const response = await apiClient.post<CreateStudioResponse>('api/v1/studio/create', studio);
+  return response.data.session;
+};
+
+export const joinStudio = async (request: JoinStudioRequest): Promise<JoinStudioResponse['session']['session']> => {
+  const response = await apiClient.post<JoinStudioResponse>('api/v1/studio/join', request);
+  return response.data.session.session;
+};
+
+const studioPath = (studioId: string) => `api/v1/studio/${encodeURIComponent(studioId)}`;
+
+export const listStudios = async ({ page, limit, search }: ListStudiosRequest): Promise<ListStudiosResponse> => {
+  const response = await apiClient.get<ListStudiosResponse>('api/v1/studio/list', {
+    params: { page, limit, ...(search ? { search } : {}) },
+  });
+  return response.data;
+};
+
+export const updateStudio = async (studioId: string, changes: UpdateStudioRequest): Promise<StudioRecord> => {
+  const response = await apiClient.patch<UpdateStudioResponse>(studioPath(studioId), changes);
+  return response.data.studio;
+};
+
+export const deleteStudio = async (studioId: string): Promise<void> => {
+  await apiClient.delete(studioPath(studioId));
+};
+
+// The backend checks the caller may do this, then announces the change over signaling
+export const lockStudio = async (request: LockStudioRequest): Promise<void> => {
+  await apiClient.post('api/v1/studio/lock', request);
+};
+
+export const changeParticipantRole = async (request: ChangeRoleRequest): Promise<void> => {
+  await apiClient.post('api/v1/studio/role', request);
+};
+
+export const removeParticipant = async (request: RemoveParticipantRequest): Promise<void> => {
+  await apiClient.post('api/v1/studio/remove', request);
+};
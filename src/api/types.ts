@@ -0,0 +1,157 @@
+import { ParticipantRole, User } from '../types';
+
+// Request and response bodies of the backend's REST API, as sent on the wire
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface SignupRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export interface CurrentUserResponse {
+  user: User;
+}
+
+export interface CreateStudioRequest {
+  name: string;
+  description: string;
+}
+
+export interface CreateStudioResponse {
+  session: {
+    id: string;
+    name: string;
+    description: string;
+  };
+}
+
+export interface JoinStudioRequest {
+  session_id: string;
+  invite_token?: string;
+}
+
+export interface JoinStudioResponse {
+  session: {
+    // The join endpoint nests the studio and capitalises its fields
+    session: {
+      id: string;
+      Name: string;
+      Description: string;
+      host?: User;
+    };
+  };
+}
+
+// Only the host may lock a studio; a locked studio's join endpoint answers 423
+// to everyone but the host and co-hosts
+export interface LockStudioRequest {
+  session_id: string;
+  locked: boolean;
+}
+
+export interface ChangeRoleRequest {
+  session_id: string;
+  user_id: string;
+  role: ParticipantRole;
+}
+
+// A removed participant's join requests are refused with 403 for the rest of the session
+export interface RemoveParticipantRequest {
+  session_id: string;
+  user_id: string;
+}
+
+// A studio as the list and update endpoints send it
+export interface StudioRecord {
+  id: string;
+  name?: string;
+  description?: string;
+  created_at: string;
+  created_by: string;
+  participant_count?: number;
+  recording_status?: string;
+}
+
+export interface ListStudiosRequest {
+  // 1-based
+  page: number;
+  limit: number;
+  search?: string;
+}
+
+export interface ListStudiosResponse {
+  studios?: StudioRecord[];
+  total?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface UpdateStudioRequest {
+  name?: string;
+  description?: string;
+}
+
+export interface UpdateStudioResponse {
+  studio: StudioRecord;
+}
+
+export interface CreateInviteRequest {
+  session_id: string;
+  role: ParticipantRole;
+}
+
+export interface CreateInviteResponse {
+  invite: {
+    token: string;
+    role?: string;
+    expires_at?: string | null;
+  };
+}
+
+export interface ValidateInviteRequest {
+  session_id: string;
+  token: string;
+}
+
+export interface ValidateInviteResponse {
+  valid: boolean;
+  // Why the invite cannot be used, e.g. 'expired'
+  reason?: string;
+  invite?: {
+    role?: string;
+  };
+}
+
+// One participant's recording as the recordings endpoint sends it
+export interface RecordingTrackRecord {
+  recording_id: string;
+  user_id: string;
+  username?: string;
+  started_at: string;
+  duration_ms?: number;
+  uploaded_chunks?: number;
+  expected_chunks?: number | null;
+  status?: string;
+  media_url: string;
+  mime_type?: string;
+}
+
+export interface ListRecordingTracksResponse {
+  tracks?: RecordingTrackRecord[];
+}
+
+export interface IceServersResponse {
+  ice_servers: RTCIceServer[];
+  // Seconds until the TURN credentials expire
+  ttl: number;
+}
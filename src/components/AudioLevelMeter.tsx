@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { createAudioLevelMeter } from '../lib/audioLevel';
+
+interface AudioLevelMeterProps {
+  stream: MediaStream | null;
+  bars?: number;
+}
+
+const AudioLevelMeter: React.FC<AudioLevelMeterProps> = ({ stream, bars = 12 }) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) {
+      setLevel(0);
+      return;
+    }
+    const meter = createAudioLevelMeter(stream);
+    let frame = requestAnimationFrame(function update() {
+      setLevel(meter.getLevel());
+      frame = requestAnimationFrame(update);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      meter.dispose();
+    };
+  }, [stream]);
+
+  const activeBars = Math.round(level * bars);
+
+  return (
+    <div className="flex items-end h-4 space-x-0.5" aria-label="Microphone level">
+      {Array.from({ length: bars }, (_, index) => (
+        <span
+          key={index}
+          className={`w-1.5 rounded-sm transition-colors duration-75 ${
+            index < activeBars ? (index >= bars * 0.8 ? 'bg-red-400' : 'bg-green-400') : 'bg-gray-600'
+          }`}
+          style={{ height: `${40 + (index / bars) * 60}%` }}
+        ></span>
+      ))}
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
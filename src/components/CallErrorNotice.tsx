@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { CallErrorReason } from '../types';
+import { BROWSER_SETTINGS_HINT, CALL_ERROR_COPY, CallRecoveryAction } from '../lib/callErrors';
+
+interface CallErrorNoticeProps {
+  reason: CallErrorReason;
+  // Actions without a handler are left out, so each screen offers only what it can do
+  onRetry?: () => void;
+  onAudioOnly?: () => void;
+  onDashboard?: () => void;
+  variant?: 'light' | 'dark';
+}
+
+const ACTION_LABELS: Record<CallRecoveryAction, string> = {
+  retry: 'Try again',
+  'audio-only': 'Join with audio only',
+  'open-settings': 'How do I allow access?',
+  dashboard: 'Back to dashboard',
+};
+
+// Explains why a call could not start or ended, with the ways out that apply
+const CallErrorNotice: React.FC<CallErrorNoticeProps> = ({ reason, onRetry, onAudioOnly, onDashboard, variant = 'dark' }) => {
+  const [showSettingsHint, setShowSettingsHint] = useState(false);
+  const { title, message, actions } = CALL_ERROR_COPY[reason];
+  const handlers: Record<CallRecoveryAction, (() => void) | undefined> = {
+    retry: onRetry,
+    'audio-only': onAudioOnly,
+    'open-settings': () => setShowSettingsHint(true),
+    dashboard: onDashboard,
+  };
+  const available = actions.filter(action => handlers[action]);
+  const isDark = variant === 'dark';
+
+  return (
+    <div className={`p-4 rounded-md text-sm ${isDark ? 'bg-red-900 bg-opacity-50 text-red-200' : 'bg-red-50 text-red-800'}`} role="alert">
+      <div className="flex items-start">
+        <AlertTriangle className="h-5 w-5 mr-2 flex-shrink-0" />
+        <div className="text-left">
+          <p className="font-medium">{title}</p>
+          <p className="mt-1">{message}</p>
+          {showSettingsHint && <p className="mt-2">{BROWSER_SETTINGS_HINT}</p>}
+        </div>
+      </div>
+      {available.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {available.map((action, index) => (
+            <button
+              key={action}
+              type="button"
+              onClick={handlers[action]}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                index === 0
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : isDark
+                    ? 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                    : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CallErrorNotice;
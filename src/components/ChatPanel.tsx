@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, X } from 'lucide-react';
+import { useCall } from '../context/CallContext';
+import { useAuth } from '../context/AuthContext';
+import { formatChatTime, MAX_CHAT_MESSAGE_LENGTH } from '../lib/chat';
+
+interface ChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+// Turns bare URLs into links; everything else stays plain text
+const renderText = (text: string) =>
+  text.split(URL_PATTERN).map((part, index) =>
+    index % 2 === 1 ? (
+      <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline break-all">
+        {part}
+      </a>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose }) => {
+  const { chatMessages, sendChatMessage } = useCall();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [isOpen, chatMessages.length]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    sendChatMessage(draft);
+    setDraft('');
+  };
+
+  return (
+    <aside className="w-80 flex flex-col bg-gray-800 border-l border-gray-700">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h3 className="text-white font-medium">Chat</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-200">
+          <span className="sr-only">Close</span>
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {chatMessages.length === 0 ? (
+          <p className="text-gray-500 text-sm text-center mt-8">Messages are visible to everyone in the studio.</p>
+        ) : (
+          chatMessages.map(message => {
+            const isOwn = message.from === user?.id;
+            return (
+              <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                <div className="flex items-baseline space-x-2 text-xs">
+                  <span className="text-gray-300 font-medium">{isOwn ? 'You' : message.senderName}</span>
+                  <span className="text-gray-500">{formatChatTime(message.sentAt)}</span>
+                </div>
+                <p
+                  className={`mt-1 max-w-full px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words ${
+                    isOwn ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-100'
+                  }`}
+                >
+                  {renderText(message.text)}
+                </p>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t border-gray-700 flex items-center space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          placeholder="Send a message"
+          className="flex-1 rounded-md bg-gray-700 border border-gray-600 text-gray-100 text-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="p-2 rounded-md bg-blue-600 hover:bg-blue-500 text-white focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Send"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+    </aside>
+  );
+};
+
+export default ChatPanel;
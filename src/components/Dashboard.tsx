@@ -1,33 +1,47 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Video, LogOut, Users } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Video, LogOut, Users, UploadCloud } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useCall } from '../context/CallContext';
+import { CallErrorReason } from '../types';
+import { toCallError } from '../lib/callErrors';
 import JoinSessionModal from './JoinSessionModal';
+import CallErrorNotice from './CallErrorNotice';
+import StudioList from './StudioList';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
+  // The lobby sends people back here when the studio they tried could not be joined
+  const joinError = (useLocation().state as { joinError?: CallErrorReason } | null)?.joinError ?? null;
   const { user, logout } = useAuth();
-  const { createSession } = useCall();
-  const [isJoinModalOpen, setIsJoinModalOpen] = useState(false);
+  const { createSession, uploadProgress } = useCall();
+  const [isJoinModalOpen, setIsJoinModalOpen] = useState(joinError !== null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isCreatingSession, setIsCreatingSession] = useState(false);
   const [sessionName, setSessionName] = useState('');
   const [sessionDescription, setSessionDescription] = useState('');
+  const [createError, setCreateError] = useState<CallErrorReason | null>(null);
 
   const handleCreateSession = async () => {
     try {
       setIsCreatingSession(true);
+      setCreateError(null);
       const sessionId = await createSession(sessionName, sessionDescription);
-      navigate(`/room/${sessionId}`);
+      setIsCreateModalOpen(false);
+      navigate(`/room/${sessionId}/lobby`);
     } catch (error) {
       console.error('Failed to create session:', error);
+      setCreateError(toCallError(error).reason);
     } finally {
       setIsCreatingSession(false);
-      setIsCreateModalOpen(false);
     }
   };
 
+  const closeCreateModal = () => {
+    setIsCreateModalOpen(false);
+    setCreateError(null);
+  };
+
   const handleLogout = () => {
     logout();
     navigate('/');
@@ -59,6 +73,26 @@ const Dashboard: React.FC = () => {
 
       {/* Main content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {uploadProgress.pending > 0 && (
+          <div className="mb-8 max-w-3xl mx-auto flex items-start p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <UploadCloud className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className="ml-3 flex-grow">
+              <p className="text-sm font-medium text-amber-800">
+                Uploading your recording: {uploadProgress.uploaded} of {uploadProgress.total} chunks uploaded
+              </p>
+              <p className="mt-1 text-sm text-amber-700">
+                Please keep this tab open until the upload finishes, or your recording may not reach the server.
+              </p>
+              <div className="mt-3 h-2 bg-amber-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-amber-500 transition-all duration-300"
+                  style={{ width: `${(uploadProgress.uploaded / uploadProgress.total) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="text-center mb-16">
           <h2 className="text-3xl font-extrabold text-gray-900 sm:text-4xl">
             Start or join a video conference
@@ -119,6 +153,8 @@ const Dashboard: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <StudioList />
       </main>
 
       {/* Create session modal */}
@@ -143,9 +179,14 @@ const Dashboard: React.FC = () => {
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               />
             </div>
+            {createError && (
+              <div className="mb-4">
+                <CallErrorNotice reason={createError} onRetry={handleCreateSession} variant="light" />
+              </div>
+            )}
             <div className="flex justify-end">
               <button
-                onClick={() => setIsCreateModalOpen(false)}
+                onClick={closeCreateModal}
                 className="mr-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
               >
                 Cancel
@@ -166,6 +207,7 @@ const Dashboard: React.FC = () => {
       <JoinSessionModal
         isOpen={isJoinModalOpen}
         onClose={() => setIsJoinModalOpen(false)}
+        callError={joinError}
       />
     </div>
   );
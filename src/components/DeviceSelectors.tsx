@@ -0,0 +1,86 @@
+import React from 'react';
+import { Mic, Video as VideoIcon, Volume2 } from 'lucide-react';
+import { MediaDeviceLists, supportsAudioOutputSelection } from '../lib/devices';
+
+interface DeviceSelectorsProps {
+  devices: MediaDeviceLists;
+  audioInputId: string | null;
+  videoInputId: string | null;
+  audioOutputId: string | null;
+  onSelect: (kind: MediaDeviceKind, deviceId: string) => void;
+}
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  options: MediaDeviceInfo[];
+  value: string | null;
+  fallbackLabel: string;
+  onChange: (deviceId: string) => void;
+}
+
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ id, label, icon, options, value, fallbackLabel, onChange }) => (
+  <div>
+    <label htmlFor={id} className="flex items-center text-sm font-medium text-gray-300">
+      {icon}
+      <span className="ml-2">{label}</span>
+    </label>
+    <select
+      id={id}
+      value={value ?? options[0]?.deviceId ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={options.length === 0}
+      className="mt-1 block w-full rounded-md bg-gray-700 border border-gray-600 text-gray-100 text-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+    >
+      {options.length === 0 && <option value="">No devices found</option>}
+      {options.map((device, index) => (
+        <option key={device.deviceId || index} value={device.deviceId}>
+          {device.label || `${fallbackLabel} ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+const DeviceSelectors: React.FC<DeviceSelectorsProps> = ({
+  devices,
+  audioInputId,
+  videoInputId,
+  audioOutputId,
+  onSelect,
+}) => (
+  <div className="space-y-4">
+    <DeviceSelect
+      id="video-input"
+      label="Camera"
+      icon={<VideoIcon className="h-4 w-4" />}
+      options={devices.videoInputs}
+      value={videoInputId}
+      fallbackLabel="Camera"
+      onChange={(deviceId) => onSelect('videoinput', deviceId)}
+    />
+    <DeviceSelect
+      id="audio-input"
+      label="Microphone"
+      icon={<Mic className="h-4 w-4" />}
+      options={devices.audioInputs}
+      value={audioInputId}
+      fallbackLabel="Microphone"
+      onChange={(deviceId) => onSelect('audioinput', deviceId)}
+    />
+    {supportsAudioOutputSelection() && (
+      <DeviceSelect
+        id="audio-output"
+        label="Speaker"
+        icon={<Volume2 className="h-4 w-4" />}
+        options={devices.audioOutputs}
+        value={audioOutputId}
+        fallbackLabel="Speaker"
+        onChange={(deviceId) => onSelect('audiooutput', deviceId)}
+      />
+    )}
+  </div>
+);
+
+export default DeviceSelectors;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useCall } from '../context/CallContext';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import DeviceSelectors from './DeviceSelectors';
+
+interface DeviceSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// In-call device settings: switch camera, microphone or speaker without leaving
+const DeviceSettingsPanel: React.FC<DeviceSettingsPanelProps> = ({ isOpen, onClose }) => {
+  const { mediaState, mediaPreferences, switchDevice, lowBandwidthMode, setLowBandwidthMode } = useCall();
+  const { devices } = useMediaDevices();
+  const [error, setError] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (!isOpen) return null;
+
+  // Prefer what the live tracks report; preferences may still name a device that was unplugged
+  const audioInputId =
+    mediaState.localStream?.getAudioTracks()[0]?.getSettings().deviceId ?? mediaPreferences.audioInputId;
+  const videoInputId =
+    mediaState.localStream?.getVideoTracks()[0]?.getSettings().deviceId ?? mediaPreferences.videoInputId;
+
+  const handleSelect = async (kind: MediaDeviceKind, deviceId: string) => {
+    try {
+      setIsSwitching(true);
+      setError(null);
+      await switchDevice(kind, deviceId);
+    } catch (err) {
+      console.error('Failed to switch device:', err);
+      setError('Could not switch to that device. It may be in use by another application.');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-20 right-4 z-20 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-medium">Audio &amp; video settings</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-200">
+          <span className="sr-only">Close</span>
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+      <fieldset disabled={isSwitching} className={isSwitching ? 'opacity-70' : ''}>
+        <DeviceSelectors
+          devices={devices}
+          audioInputId={audioInputId}
+          videoInputId={videoInputId}
+          audioOutputId={mediaPreferences.audioOutputId}
+          onSelect={handleSelect}
+        />
+      </fieldset>
+      <label className="mt-4 flex items-start text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={lowBandwidthMode}
+          onChange={(e) => setLowBandwidthMode(e.target.checked)}
+          className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="ml-2">
+          Low bandwidth mode
+          <span className="block text-xs text-gray-500">Send lower resolution video to keep audio clear on a weak connection</span>
+        </span>
+      </label>
+      {error && (
+        <div className="mt-4 p-3 bg-red-900 bg-opacity-50 text-red-200 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceSettingsPanel;
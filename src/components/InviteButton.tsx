@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Check, ChevronDown, Link2, X } from 'lucide-react';
+import { buildInviteUrl, createInvite, INVITABLE_ROLES, InviteRole } from '../lib/invites';
+import { ROLE_LABELS } from '../lib/roles';
+
+interface InviteButtonProps {
+  sessionId: string;
+  // Moderators can mint signed invites and choose the role they grant
+  canCreateInvites: boolean;
+}
+
+const InviteButton: React.FC<InviteButtonProps> = ({ sessionId, canCreateInvites }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // Shown for copying by hand when the browser refuses clipboard access
+  const [manualUrl, setManualUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  const copyInvite = async (role: InviteRole) => {
+    setIsOpen(false);
+    let url = buildInviteUrl(sessionId, { role });
+    if (canCreateInvites) {
+      try {
+        const invite = await createInvite(sessionId, role);
+        url = buildInviteUrl(sessionId, invite);
+      } catch (error) {
+        // A plain link still works for anyone the backend lets into the studio
+        console.error('Failed to create invite, copying a plain link instead:', error);
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+      setManualUrl(url);
+    }
+  };
+
+  return (
+    <div className="relative ml-2">
+      <button
+        onClick={() => (canCreateInvites ? setIsOpen(open => !open) : copyInvite(INVITABLE_ROLES[0]))}
+        className="inline-flex items-center text-gray-300 hover:text-white text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+      >
+        {copied ? <Check className="h-3 w-3 mr-1 text-green-400" /> : <Link2 className="h-3 w-3 mr-1" />}
+        {copied ? 'Link copied' : 'Copy invite link'}
+        {canCreateInvites && <ChevronDown className="h-3 w-3 ml-1" />}
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 mt-1 z-20 w-44 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1">
+          {INVITABLE_ROLES.map(role => (
+            <button
+              key={role}
+              onClick={() => copyInvite(role)}
+              className="w-full text-left px-3 py-2 text-sm text-gray-200 hover:bg-gray-700"
+            >
+              Invite as {ROLE_LABELS[role].toLowerCase()}
+            </button>
+          ))}
+        </div>
+      )}
+      {manualUrl && (
+        <div className="absolute left-0 mt-1 z-20 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs text-gray-300">Copy this link to invite someone:</p>
+            <button onClick={() => setManualUrl(null)} className="text-gray-400 hover:text-white" aria-label="Close">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          <input
+            type="text"
+            readOnly
+            value={manualUrl}
+            onFocus={event => event.target.select()}
+            autoFocus
+            className="w-full px-2 py-1 text-xs bg-gray-900 text-gray-200 border border-gray-700 rounded"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InviteButton;
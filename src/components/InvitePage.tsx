@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { InviteError, InviteErrorReason, isInviteRole, validateInvite } from '../lib/invites';
+import { ParticipantRole } from '../types';
+
+const ERROR_COPY: Record<InviteErrorReason | 'unknown', { title: string; message: string }> = {
+  expired: {
+    title: 'This invite has expired',
+    message: 'Ask the host for a new invite link.',
+  },
+  invalid: {
+    title: 'This invite link is not valid',
+    message: 'The link may have been copied incompletely, or the invite was revoked. Ask the host to send it again.',
+  },
+  'not-found': {
+    title: 'Studio not found',
+    message: 'The studio this link points to no longer exists.',
+  },
+  unknown: {
+    title: 'We could not check this invite',
+    message: 'Something went wrong on our side. Please try again in a moment.',
+  },
+};
+
+// Landing page for /join/:sessionId invite links. Checks the invite, then
+// hands over to the lobby, which joins automatically.
+const InvitePage: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [errorReason, setErrorReason] = useState<InviteErrorReason | 'unknown' | null>(null);
+  const inviteToken = searchParams.get('token');
+  const requestedRole = searchParams.get('role');
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const resolveRole = async () => {
+      // A signed invite decides the role; a bare link can only ask to join as a viewer
+      if (inviteToken) return validateInvite(sessionId, inviteToken);
+      return isInviteRole(requestedRole) ? requestedRole : ParticipantRole.GUEST;
+    };
+
+    resolveRole()
+      .then((role) => {
+        if (cancelled) return;
+        navigate(`/room/${sessionId}/lobby`, {
+          replace: true,
+          state: { autoJoin: true, invite: { token: inviteToken, role } },
+        });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Failed to validate invite:', error);
+        setErrorReason(error instanceof InviteError ? error.reason : 'unknown');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, inviteToken, requestedRole, navigate]);
+
+  if (!errorReason) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-white border-t-transparent"></div>
+        <p className="mt-4 text-gray-300">Checking your invite...</p>
+      </div>
+    );
+  }
+
+  const { title, message } = ERROR_COPY[errorReason];
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-900 px-4">
+      <div className="max-w-md w-full text-center p-8 bg-gray-800 rounded-xl shadow-lg">
+        <div className="h-12 w-12 rounded-full bg-red-100 mx-auto flex items-center justify-center">
+          <AlertTriangle className="h-6 w-6 text-red-600" />
+        </div>
+        <h1 className="mt-4 text-white text-xl font-semibold">{title}</h1>
+        <p className="mt-2 text-gray-300">{message}</p>
+        <Link
+          to="/dashboard"
+          className="mt-6 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Go to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default InvitePage;
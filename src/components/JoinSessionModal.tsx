@@ -1,42 +1,42 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { X } from 'lucide-react';
-import { useCall } from '../context/CallContext';
+import { CallErrorReason } from '../types';
+import CallErrorNotice from './CallErrorNotice';
 
 interface JoinSessionModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Why the last attempt to join from the lobby failed, if that is how we got here
+  callError?: CallErrorReason | null;
 }
 
-const JoinSessionModal: React.FC<JoinSessionModalProps> = ({ isOpen, onClose }) => {
+const JoinSessionModal: React.FC<JoinSessionModalProps> = ({ isOpen, onClose, callError = null }) => {
   const navigate = useNavigate();
-  const { joinSession } = useCall();
   const [sessionId, setSessionId] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [isJoining, setIsJoining] = useState(false);
+  const [shownCallError, setShownCallError] = useState(callError);
 
   if (!isOpen) return null;
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setShownCallError(null);
     
     if (!sessionId.trim()) {
       setError('Please enter a valid session ID');
       return;
     }
     
-    try {
-      setIsJoining(true);
-      setError(null);
-      await joinSession(sessionId);
-      onClose();
-      navigate(`/room/${sessionId}`);
-    } catch (err) {
-      setError('Failed to join session. Please check the session ID and try again.');
-    } finally {
-      setIsJoining(false);
+    // A pasted invite link goes through the invite check like opening it would
+    const inviteMatch = sessionId.trim().match(/\/join\/([^/?#]+)(\?[^#]*)?/);
+    onClose();
+    if (inviteMatch) {
+      navigate(`/join/${inviteMatch[1]}${inviteMatch[2] ?? ''}`);
+      return;
     }
+    // Device checks and the actual join happen in the lobby
+    navigate(`/room/${sessionId.trim()}/lobby`);
   };
 
   return (
@@ -82,6 +82,12 @@ const JoinSessionModal: React.FC<JoinSessionModalProps> = ({ isOpen, onClose })
                 </div>
               )}
 
+              {shownCallError && (
+                <div className="mt-4">
+                  <CallErrorNotice reason={shownCallError} variant="light" />
+                </div>
+              )}
+
               <form onSubmit={handleSubmit} className="mt-5">
                 <div>
                   <label htmlFor="session-id" className="block text-sm font-medium text-gray-700">
@@ -95,7 +101,7 @@ const JoinSessionModal: React.FC<JoinSessionModalProps> = ({ isOpen, onClose })
                       value={sessionId}
                       onChange={(e) => setSessionId(e.target.value)}
                       className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md p-2 border"
-                      placeholder="Enter session ID"
+                      placeholder="Enter a session ID or paste an invite link"
                     />
                   </div>
                 </div>
@@ -103,10 +109,9 @@ const JoinSessionModal: React.FC<JoinSessionModalProps> = ({ isOpen, onClose })
                 <div className="mt-5 sm:flex sm:flex-row-reverse">
                   <button
                     type="submit"
-                    disabled={isJoining}
-                    className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm transition-colors duration-200 ease-in-out disabled:opacity-70 disabled:cursor-not-allowed"
+                    className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm transition-colors duration-200 ease-in-out"
                   >
-                    {isJoining ? 'Joining...' : 'Join'}
+                    Join
                   </button>
                   <button
                     type="button"
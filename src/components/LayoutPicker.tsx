@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { Check, LayoutGrid } from 'lucide-react';
+import { LAYOUT_MODES, LayoutMode } from '../lib/layout';
+
+interface LayoutPickerProps {
+  mode: LayoutMode;
+  onChange: (mode: LayoutMode) => void;
+}
+
+const LayoutPicker: React.FC<LayoutPickerProps> = ({ mode, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`p-3 rounded-full focus:outline-none transition-colors duration-200 ${
+          isOpen ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+        }`}
+        title="Change layout"
+      >
+        <LayoutGrid className="h-6 w-6 text-white" />
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 z-20 w-44 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1">
+          {LAYOUT_MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => {
+                onChange(option.mode);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-200 hover:bg-gray-700"
+            >
+              {option.label}
+              {option.mode === mode && <Check className="h-4 w-4 text-blue-400" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayoutPicker;
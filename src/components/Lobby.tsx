@@ -0,0 +1,302 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Mic, MicOff, Video as VideoIcon, VideoOff } from 'lucide-react';
+import { useCall } from '../context/CallContext';
+import { CallErrorReason, JoinOptions, MediaPreferences, ParticipantRole } from '../types';
+import { buildMediaConstraints } from '../lib/devices';
+import { toCallError } from '../lib/callErrors';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import DeviceSelectors from './DeviceSelectors';
+import AudioLevelMeter from './AudioLevelMeter';
+import CallErrorNotice from './CallErrorNotice';
+
+// Seconds an invite link waits in the lobby before joining on its own
+const AUTO_JOIN_SECONDS = 5;
+
+interface LobbyLocationState {
+  autoJoin?: boolean;
+  invite?: JoinOptions & { token?: string | null };
+}
+
+// Green room shown before entering a studio: preview camera and mic, pick
+// devices and decide whether to start muted or with the camera off.
+const Lobby: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const locationState = useLocation().state as LobbyLocationState | null;
+  const invite = locationState?.invite;
+  const isViewer = invite?.role === ParticipantRole.VIEWER;
+  const [autoJoinIn, setAutoJoinIn] = useState<number | null>(locationState?.autoJoin ? AUTO_JOIN_SECONDS : null);
+  const { callState, mediaPreferences, setMediaPreferences, joinSession } = useCall();
+  const [draft, setDraft] = useState<MediaPreferences>(mediaPreferences);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const { devices, refresh: refreshDevices } = useMediaDevices();
+  const [previewError, setPreviewError] = useState<CallErrorReason | null>(null);
+  // Bumped to ask for the camera and microphone again after a failure
+  const [previewAttempt, setPreviewAttempt] = useState(0);
+  // Chosen when the camera is busy or missing; the call then goes ahead without video
+  const [audioOnly, setAudioOnly] = useState(false);
+  const [joinError, setJoinError] = useState<CallErrorReason | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({ ...buildMediaConstraints(draft), ...(audioOnly ? { video: false } : {}) })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        acquired = stream;
+        setPreviewStream(stream);
+        setPreviewError(null);
+        // Labels are only available once permission has been granted
+        refreshDevices();
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Failed to start preview:', error);
+        if (error?.name === 'OverconstrainedError' && (draft.audioInputId || draft.videoInputId)) {
+          // A remembered device is gone; fall back to the browser defaults
+          setDraft(prev => ({ ...prev, audioInputId: null, videoInputId: null }));
+          return;
+        }
+        setPreviewStream(null);
+        setPreviewError(toCallError(error).reason);
+      });
+
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach(track => track.stop());
+    };
+    // Only a different device needs a new stream; the toggles are applied on join
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft.audioInputId, draft.videoInputId, audioOnly, previewAttempt]);
+
+  useEffect(() => {
+    if (previewVideoRef.current) {
+      previewVideoRef.current.srcObject = previewStream;
+    }
+  }, [previewStream]);
+
+  const handleSelectDevice = (kind: MediaDeviceKind, deviceId: string) => {
+    setDraft(prev => ({
+      ...prev,
+      ...(kind === 'audioinput' ? { audioInputId: deviceId } : {}),
+      ...(kind === 'videoinput' ? { videoInputId: deviceId } : {}),
+      ...(kind === 'audiooutput' ? { audioOutputId: deviceId } : {}),
+    }));
+  };
+
+  const handleJoin = async (withoutVideo = audioOnly) => {
+    if (!sessionId) return;
+    try {
+      setAutoJoinIn(null);
+      setIsJoining(true);
+      setJoinError(null);
+      setMediaPreferences(draft);
+      await joinSession(sessionId, { inviteToken: invite?.token, role: invite?.role, audioOnly: withoutVideo });
+      navigate(`/room/${sessionId}`);
+    } catch (error) {
+      console.error('Failed to join session:', error);
+      setJoinError(toCallError(error).reason);
+      setIsJoining(false);
+    }
+  };
+
+  const handleRetryPreview = () => {
+    setPreviewError(null);
+    setPreviewAttempt(attempt => attempt + 1);
+  };
+
+  const handleAudioOnlyPreview = () => {
+    setPreviewError(null);
+    setAudioOnly(true);
+  };
+
+  const handleAudioOnlyJoin = () => {
+    setAudioOnly(true);
+    handleJoin(true);
+  };
+
+  // Studio problems are for the join dialog, where another ID can be entered
+  const handleBackToDashboard = () => navigate('/dashboard', { state: { joinError } });
+
+  // Invite links count down once the preview is up; the user can stop it to adjust devices
+  useEffect(() => {
+    if (autoJoinIn === null || !previewStream || isJoining) return;
+    if (autoJoinIn === 0) {
+      handleJoin();
+      return;
+    }
+    const timeout = window.setTimeout(() => setAutoJoinIn(seconds => (seconds === null ? null : seconds - 1)), 1000);
+    return () => window.clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoJoinIn, previewStream, isJoining]);
+
+  const sessionName = callState.session?.id === sessionId ? callState.session?.name : null;
+  const showVideoPreview = !!previewStream && !draft.startWithCameraOff && !audioOnly;
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col">
+      <header className="bg-gray-800 px-4 py-3 flex items-center">
+        <button
+          onClick={() => navigate('/dashboard')}
+          className="inline-flex items-center text-gray-300 hover:text-white text-sm"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to dashboard
+        </button>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <div className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3">
+            <div className="relative aspect-video rounded-xl overflow-hidden bg-gray-800 shadow-lg">
+              <video
+                ref={previewVideoRef}
+                autoPlay
+                playsInline
+                muted
+                className={`w-full h-full object-cover transform -scale-x-100 ${showVideoPreview ? '' : 'hidden'}`}
+              />
+              {!showVideoPreview && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  {previewError ? (
+                    <div className="max-w-sm px-6">
+                      <CallErrorNotice reason={previewError} onRetry={handleRetryPreview} onAudioOnly={handleAudioOnlyPreview} />
+                    </div>
+                  ) : previewStream ? (
+                    <div className="h-24 w-24 rounded-full bg-gray-700 flex items-center justify-center">
+                      <VideoOff className="h-10 w-10 text-gray-400" />
+                    </div>
+                  ) : (
+                    <div className="animate-spin rounded-full h-10 w-10 border-4 border-white border-t-transparent"></div>
+                  )}
+                </div>
+              )}
+
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center space-x-3">
+                <button
+                  onClick={() => setDraft(prev => ({ ...prev, startMuted: !prev.startMuted }))}
+                  className={`p-3 rounded-full focus:outline-none transition-colors duration-200 ${
+                    draft.startMuted ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  title={draft.startMuted ? 'Join with microphone on' : 'Join muted'}
+                >
+                  {draft.startMuted ? <MicOff className="h-5 w-5 text-white" /> : <Mic className="h-5 w-5 text-white" />}
+                </button>
+                <button
+                  onClick={() => setDraft(prev => ({ ...prev, startWithCameraOff: !prev.startWithCameraOff }))}
+                  className={`p-3 rounded-full focus:outline-none transition-colors duration-200 ${
+                    draft.startWithCameraOff ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  title={draft.startWithCameraOff ? 'Join with camera on' : 'Join with camera off'}
+                >
+                  {draft.startWithCameraOff ? <VideoOff className="h-5 w-5 text-white" /> : <VideoIcon className="h-5 w-5 text-white" />}
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 flex items-center justify-between bg-gray-800 rounded-lg px-4 py-3">
+              <span className="text-sm text-gray-300">
+                {draft.startMuted ? 'You will join muted' : 'Microphone level'}
+              </span>
+              <AudioLevelMeter stream={previewStream} />
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 bg-gray-800 rounded-xl p-6 shadow-lg flex flex-col">
+            <h1 className="text-2xl font-bold text-white">Ready to join?</h1>
+            <p className="mt-1 text-gray-400 text-sm">
+              {sessionName ? sessionName : 'Session'}{' '}
+              <span className="font-mono text-gray-500">{sessionId}</span>
+            </p>
+
+            <div className="mt-6 flex-grow">
+              <DeviceSelectors
+                devices={devices}
+                audioInputId={draft.audioInputId}
+                videoInputId={draft.videoInputId}
+                audioOutputId={draft.audioOutputId}
+                onSelect={handleSelectDevice}
+              />
+
+              <div className="mt-6 space-y-3">
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.startMuted}
+                    onChange={(e) => setDraft(prev => ({ ...prev, startMuted: e.target.checked }))}
+                    className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="ml-2">Join muted</span>
+                </label>
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.startWithCameraOff}
+                    onChange={(e) => setDraft(prev => ({ ...prev, startWithCameraOff: e.target.checked }))}
+                    className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="ml-2">Join with camera off</span>
+                </label>
+              </div>
+            </div>
+
+            {isViewer && (
+              <p className="mt-4 text-sm text-gray-400">
+                You are joining as a viewer. Your camera and microphone stay off unless the host lets you speak.
+              </p>
+            )}
+
+            {previewError && (
+              <p className="mt-4 text-sm text-gray-400">
+                You can still join without a camera or microphone and watch and listen to the others.
+              </p>
+            )}
+
+            {audioOnly && (
+              <p className="mt-4 text-sm text-gray-400">
+                You are joining with audio only. Others will not see your camera.
+              </p>
+            )}
+
+            {joinError && (
+              <div className="mt-4">
+                <CallErrorNotice
+                  reason={joinError}
+                  onRetry={() => handleJoin()}
+                  onAudioOnly={handleAudioOnlyJoin}
+                  onDashboard={handleBackToDashboard}
+                />
+              </div>
+            )}
+
+            <button
+              onClick={() => handleJoin()}
+              disabled={isJoining || (!previewStream && !previewError)}
+              className="mt-6 w-full inline-flex items-center justify-center px-5 py-3 border border-transparent text-base font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 transition-colors duration-200 ease-in-out disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {isJoining ? 'Joining...' : autoJoinIn !== null ? `Joining in ${autoJoinIn}...` : 'Join now'}
+            </button>
+            {autoJoinIn !== null && !isJoining && (
+              <button
+                onClick={() => setAutoJoinIn(null)}
+                className="mt-2 text-sm text-gray-400 hover:text-gray-200"
+              >
+                Wait, let me check my setup
+              </button>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Lobby;
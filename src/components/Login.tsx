@@ -1,10 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
 import { Mail, Lock, User } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by ProtectedRoute when login interrupted the way to another page
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/dashboard';
   const { login, register, isLoading, error, isAuthenticated } = useAuth();
   const [isLoginMode, setIsLoginMode] = useState(true);
   const [formData, setFormData] = useState({
@@ -17,9 +21,9 @@ const Login: React.FC = () => {
     console.log('isAuthenticated:', isAuthenticated);
     console.log('isLoading:', isLoading);
     if (!isLoading && isAuthenticated && location.pathname === '/') {
-      navigate('/dashboard');
+      navigate(redirectTo, { replace: true });
     }
-  }, [isAuthenticated, isLoading, navigate]);
+  }, [isAuthenticated, isLoading, navigate, location.pathname, redirectTo]);
 
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -39,7 +43,7 @@ const Login: React.FC = () => {
       } else {
         await register(formData.name, formData.email, formData.password);
       }
-      navigate('/dashboard');
+      navigate(redirectTo, { replace: true });
     } catch (err) {
       // Error is handled by the auth context
       console.error(err);
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Eye, MicOff, MoreVertical, Shield, ShieldOff, UserMinus, VideoOff } from 'lucide-react';
+import { useCall } from '../context/CallContext';
+import { Participant, ParticipantRole } from '../types';
+import { canManageStudio } from '../lib/roles';
+
+interface ParticipantMenuProps {
+  participant: Participant;
+}
+
+interface MenuItem {
+  label: string;
+  icon: React.ReactNode;
+  onSelect: () => void;
+  danger?: boolean;
+}
+
+// Moderator actions for one remote participant, opened from their tile
+const ParticipantMenu: React.FC<ParticipantMenuProps> = ({ participant }) => {
+  const { localRole, moderateParticipant, setParticipantRole } = useCall();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const items: MenuItem[] = [];
+  if (participant.audioEnabled) {
+    items.push({ label: 'Mute', icon: <MicOff className="h-4 w-4" />, onSelect: () => moderateParticipant(participant.id, 'mute') });
+  }
+  if (participant.videoEnabled) {
+    items.push({ label: 'Stop video', icon: <VideoOff className="h-4 w-4" />, onSelect: () => moderateParticipant(participant.id, 'stop-video') });
+  }
+  if (canManageStudio(localRole) && participant.role !== ParticipantRole.HOST) {
+    if (participant.role === ParticipantRole.CO_HOST) {
+      items.push({ label: 'Remove co-host', icon: <ShieldOff className="h-4 w-4" />, onSelect: () => setParticipantRole(participant.id, ParticipantRole.GUEST) });
+    } else {
+      items.push({ label: 'Make co-host', icon: <Shield className="h-4 w-4" />, onSelect: () => setParticipantRole(participant.id, ParticipantRole.CO_HOST) });
+    }
+    if (participant.role === ParticipantRole.VIEWER) {
+      items.push({ label: 'Allow to speak', icon: <Eye className="h-4 w-4" />, onSelect: () => setParticipantRole(participant.id, ParticipantRole.GUEST) });
+    } else {
+      items.push({ label: 'Make viewer', icon: <Eye className="h-4 w-4" />, onSelect: () => setParticipantRole(participant.id, ParticipantRole.VIEWER) });
+    }
+  }
+  if (participant.role !== ParticipantRole.HOST) {
+    items.push({
+      label: 'Remove from studio',
+      icon: <UserMinus className="h-4 w-4" />,
+      onSelect: () => {
+        if (window.confirm(`Remove ${participant.username} from the studio?`)) {
+          moderateParticipant(participant.id, 'remove');
+        }
+      },
+      danger: true,
+    });
+  }
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-1 rounded-md bg-black bg-opacity-50 hover:bg-opacity-70 focus:outline-none"
+        title="Participant options"
+      >
+        <MoreVertical className="h-4 w-4 text-white" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 z-20 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1">
+          {items.map(item => (
+            <button
+              key={item.label}
+              onClick={() => {
+                item.onSelect();
+                setIsOpen(false);
+              }}
+              className={`w-full flex items-center px-3 py-2 text-sm hover:bg-gray-700 ${
+                item.danger ? 'text-red-400' : 'text-gray-200'
+              }`}
+            >
+              {item.icon}
+              <span className="ml-2">{item.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParticipantMenu;
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, Film } from 'lucide-react';
+import { formatDuration } from '../lib/recording';
+import {
+  downloadAllTracks,
+  downloadTrack,
+  listRecordingTracks,
+  RecordingTrack,
+  trackCompleteness,
+  trackOffsets,
+  TrackUploadStatus,
+} from '../lib/recordingLibrary';
+import SyncedPlayer from './SyncedPlayer';
+
+const STATUS_LABELS: Record<TrackUploadStatus, { label: string; className: string }> = {
+  complete: { label: 'Complete', className: 'bg-green-100 text-green-700' },
+  uploading: { label: 'Uploading', className: 'bg-amber-100 text-amber-700' },
+  incomplete: { label: 'Incomplete', className: 'bg-red-100 text-red-700' },
+};
+
+// Everything recorded in a studio: one track per participant, played back in
+// sync and downloadable individually or as a zip
+const RecordingsPage: React.FC = () => {
+  const { id: studioId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [tracks, setTracks] = useState<RecordingTrack[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!studioId) return;
+    let cancelled = false;
+    listRecordingTracks(studioId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setTracks(loaded);
+        setSelectedIds(new Set(loaded.map(track => track.id)));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Failed to load recordings:', error);
+        setError('We could not load the recordings for this studio. Please try again later.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [studioId]);
+
+  // Offsets come from every track so alignment does not shift as tracks are toggled
+  const offsets = useMemo(() => trackOffsets(tracks ?? []), [tracks]);
+  const selectedTracks = useMemo(
+    () => (tracks ?? []).filter(track => selectedIds.has(track.id)),
+    [tracks, selectedIds]
+  );
+
+  const toggleSelected = (trackId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(trackId)) next.delete(trackId);
+      else next.add(trackId);
+      return next;
+    });
+  };
+
+  const handleDownload = async (track: RecordingTrack | null) => {
+    if (!studioId) return;
+    try {
+      setDownloading(track?.id ?? 'all');
+      setError(null);
+      if (track) await downloadTrack(studioId, track);
+      else await downloadAllTracks(studioId);
+    } catch (error) {
+      console.error('Failed to download recording:', error);
+      setError('The download failed. Please try again.');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="inline-flex items-center text-gray-600 hover:text-gray-900 text-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to dashboard
+          </button>
+          <button
+            onClick={() => handleDownload(null)}
+            disabled={!tracks || tracks.length === 0 || downloading !== null}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {downloading === 'all' ? 'Preparing zip...' : 'Download all (.zip)'}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h2 className="text-2xl font-bold text-gray-900">Recordings</h2>
+        <p className="mt-1 text-sm text-gray-500 font-mono">{studioId}</p>
+
+        {error && (
+          <div className="mt-6 p-3 bg-red-50 text-red-700 rounded-md text-sm">{error}</div>
+        )}
+
+        {!tracks ? (
+          !error && (
+            <div className="mt-12 flex justify-center">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-600 border-t-transparent"></div>
+            </div>
+          )
+        ) : tracks.length === 0 ? (
+          <div className="mt-12 text-center text-gray-500">
+            <Film className="h-10 w-10 mx-auto text-gray-400" />
+            <p className="mt-3">Nothing has been recorded in this studio yet.</p>
+          </div>
+        ) : (
+          <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              {selectedTracks.length > 0 ? (
+                <SyncedPlayer tracks={selectedTracks} offsets={offsets} />
+              ) : (
+                <div className="bg-gray-900 rounded-2xl p-12 text-center text-gray-400 text-sm">
+                  Select at least one track to play it back.
+                </div>
+              )}
+            </div>
+
+            <ul className="bg-white shadow rounded-2xl divide-y divide-gray-200 self-start">
+              {tracks.map(track => {
+                const completeness = trackCompleteness(track);
+                const status = STATUS_LABELS[track.status];
+                return (
+                  <li key={track.id} className="p-4">
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(track.id)}
+                        onChange={() => toggleSelected(track.id)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        title="Include in playback"
+                      />
+                      <span className="ml-3 flex-grow font-medium text-gray-900 truncate">{track.username}</span>
+                      <button
+                        onClick={() => handleDownload(track)}
+                        disabled={downloading !== null}
+                        className="p-2 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                        title="Download track"
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="mt-2 ml-7 flex items-center text-xs text-gray-500">
+                      <span className="font-mono">{formatDuration(track.durationMs)}</span>
+                      <span className={`ml-2 px-2 py-0.5 rounded-full font-medium ${status.className}`}>{status.label}</span>
+                      <span className="ml-2">
+                        {track.uploadedChunks}
+                        {track.expectedChunks !== null && ` of ${track.expectedChunks}`} chunks
+                      </span>
+                    </div>
+                    {completeness !== null && (
+                      <div className="mt-2 ml-7 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${track.status === 'complete' ? 'bg-green-500' : 'bg-amber-500'}`}
+                          style={{ width: `${completeness * 100}%` }}
+                        ></div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RecordingsPage;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Signal, SignalHigh, SignalLow, SignalMedium } from 'lucide-react';
+import { ConnectionQuality } from '../types';
+
+interface SignalBadgeProps {
+  quality: ConnectionQuality;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+const QUALITY_STYLES: Record<ConnectionQuality, { icon: React.ElementType; color: string; label: string }> = {
+  good: { icon: SignalHigh, color: 'text-green-400', label: 'Good connection' },
+  fair: { icon: SignalMedium, color: 'text-yellow-400', label: 'Unstable connection' },
+  poor: { icon: SignalLow, color: 'text-red-400', label: 'Poor connection' },
+  unknown: { icon: Signal, color: 'text-gray-400', label: 'Measuring connection' },
+};
+
+const SignalBadge: React.FC<SignalBadgeProps> = ({ quality, active = false, onClick }) => {
+  const { icon: Icon, color, label } = QUALITY_STYLES[quality];
+  return (
+    <button
+      onClick={onClick}
+      className={`p-1 rounded-md bg-black focus:outline-none transition-colors duration-200 ${
+        active ? 'bg-opacity-80' : 'bg-opacity-50 hover:bg-opacity-70'
+      }`}
+      title={`${label} — click for details`}
+      aria-label={label}
+    >
+      <Icon className={`h-4 w-4 ${color}`} />
+    </button>
+  );
+};
+
+export default SignalBadge;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { PeerStats, StreamStats } from '../types';
+
+interface StatsOverlayProps {
+  stats: PeerStats;
+}
+
+const formatNumber = (value: number | null, unit: string, digits = 0) =>
+  value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+
+const formatVideo = (stream: StreamStats) => {
+  if (stream.frameWidth === null || stream.frameHeight === null) return '—';
+  const fps = stream.framesPerSecond === null ? '' : ` @ ${Math.round(stream.framesPerSecond)} fps`;
+  return `${stream.frameWidth}×${stream.frameHeight}${fps}`;
+};
+
+const Row: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between space-x-4">
+    <span className="text-gray-400">{label}</span>
+    <span className="font-mono">{value}</span>
+  </div>
+);
+
+// Raw numbers behind the signal badge, for working out whose network is at fault
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ stats }) => (
+  <div className="absolute top-12 right-4 w-56 text-white text-xs bg-black bg-opacity-75 rounded-md p-3 space-y-2">
+    <div className="space-y-0.5">
+      <Row label="Round trip" value={formatNumber(stats.rttMs, 'ms')} />
+    </div>
+    <div className="space-y-0.5">
+      <p className="text-gray-300 font-medium">Receiving</p>
+      <Row label="Bitrate" value={formatNumber(stats.inbound.bitrateKbps, 'kbps')} />
+      <Row label="Packet loss" value={formatNumber(stats.inbound.packetLossPercent, '%', 1)} />
+      <Row label="Jitter" value={formatNumber(stats.inbound.jitterMs, 'ms')} />
+      <Row label="Video" value={formatVideo(stats.inbound)} />
+    </div>
+    <div className="space-y-0.5">
+      <p className="text-gray-300 font-medium">Sending</p>
+      <Row label="Bitrate" value={formatNumber(stats.outbound.bitrateKbps, 'kbps')} />
+      <Row label="Available" value={formatNumber(stats.outbound.availableBitrateKbps, 'kbps')} />
+      <Row label="Packet loss" value={formatNumber(stats.outbound.packetLossPercent, '%', 1)} />
+      <Row label="Video" value={formatVideo(stats.outbound)} />
+      <Row label="Quality" value={stats.sendTier ?? '—'} />
+    </div>
+  </div>
+);
+
+export default StatsOverlay;
@@ -0,0 +1,343 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Circle, Film, LogIn, Pencil, Search, Trash2, Users } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import {
+  deleteStudio,
+  listStudios,
+  STUDIOS_PAGE_SIZE,
+  StudioPage,
+  StudioRecordingStatus,
+  StudioSummary,
+  updateStudio,
+} from '../lib/studios';
+
+// Wait for typing to settle before asking the backend
+const SEARCH_DEBOUNCE_MS = 300;
+
+const RECORDING_BADGES: Record<StudioRecordingStatus, { label: string; className: string } | null> = {
+  none: null,
+  'in-progress': { label: 'Recording', className: 'bg-red-100 text-red-700' },
+  available: { label: 'Recordings', className: 'bg-green-100 text-green-700' },
+};
+
+const formatCreatedAt = (createdAt: string) => {
+  const date = new Date(createdAt);
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+interface StudioRowProps {
+  studio: StudioSummary;
+  // Only the creator may rename or delete a studio
+  canManage: boolean;
+  onEnter: () => void;
+  onOpenRecordings: () => void;
+  onUpdated: (studio: StudioSummary) => void;
+  onDeleted: () => void;
+}
+
+const StudioRow: React.FC<StudioRowProps> = ({ studio, canManage, onEnter, onOpenRecordings, onUpdated, onDeleted }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState(studio.name);
+  const [description, setDescription] = useState(studio.description);
+  const [error, setError] = useState<string | null>(null);
+  const badge = RECORDING_BADGES[studio.recordingStatus];
+
+  const startEditing = () => {
+    setName(studio.name);
+    setDescription(studio.description);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      onUpdated(await updateStudio(studio.id, { name: name.trim(), description }));
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to update studio:', error);
+      setError('Could not save your changes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await deleteStudio(studio.id);
+      onDeleted();
+    } catch (error) {
+      console.error('Failed to delete studio:', error);
+      setError('Could not delete this studio. Please try again.');
+      setIsSaving(false);
+      setIsConfirmingDelete(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <li className="p-4">
+        <label className="block text-sm font-medium text-gray-700">Session Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        />
+        <label className="mt-3 block text-sm font-medium text-gray-700">Session Description</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        />
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        <div className="mt-3 flex justify-end">
+          <button
+            onClick={() => setIsEditing(false)}
+            className="mr-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="p-4 flex items-start">
+      <div className="flex-grow min-w-0">
+        <div className="flex items-center">
+          <h4 className="text-base font-semibold text-gray-900 truncate">{studio.name || 'Untitled studio'}</h4>
+          {badge && (
+            <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+              {studio.recordingStatus === 'in-progress' ? (
+                <Circle className="h-2 w-2 mr-1 fill-current" />
+              ) : (
+                <Film className="h-3 w-3 mr-1" />
+              )}
+              {badge.label}
+            </span>
+          )}
+        </div>
+        {studio.description && <p className="mt-1 text-sm text-gray-600 line-clamp-2">{studio.description}</p>}
+        <p className="mt-2 flex items-center text-xs text-gray-500">
+          {formatCreatedAt(studio.createdAt)}
+          <span className="mx-2">·</span>
+          <Users className="h-3 w-3 mr-1" />
+          {studio.participantCount} {studio.participantCount === 1 ? 'participant' : 'participants'}
+        </p>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="ml-4 flex-shrink-0 flex items-center space-x-2">
+        {isConfirmingDelete ? (
+          <>
+            <span className="text-sm text-gray-700">Delete this studio?</span>
+            <button
+              onClick={() => setIsConfirmingDelete(false)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </button>
+          </>
+        ) : (
+          <>
+            {canManage && (
+              <>
+                <button
+                  onClick={startEditing}
+                  className="p-2 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                  title="Edit"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setIsConfirmingDelete(true)}
+                  className="p-2 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </>
+            )}
+            {studio.recordingStatus !== 'none' && (
+              <button
+                onClick={onOpenRecordings}
+                className="p-2 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                title="Recordings"
+              >
+                <Film className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              onClick={onEnter}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <LogIn className="h-4 w-4 mr-1" />
+              Enter
+            </button>
+          </>
+        )}
+      </div>
+    </li>
+  );
+};
+
+// Studios the user owns or has joined, searchable and paged by the backend
+const StudioList: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<StudioPage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      setQuery(search.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [search]);
+
+  const loadStudios = useCallback(async (signal?: { cancelled: boolean }) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const next = await listStudios({ page, limit: STUDIOS_PAGE_SIZE, search: query });
+      if (signal?.cancelled) return;
+      // Deleting the last studio on a page leaves it empty; step back instead
+      if (next.studios.length === 0 && page > 1) {
+        setPage(page - 1);
+        return;
+      }
+      setResult(next);
+    } catch (error) {
+      if (signal?.cancelled) return;
+      console.error('Failed to load studios:', error);
+      setError('We could not load your studios. Please try again.');
+    } finally {
+      if (!signal?.cancelled) setIsLoading(false);
+    }
+  }, [page, query]);
+
+  useEffect(() => {
+    const signal = { cancelled: false };
+    loadStudios(signal);
+    return () => {
+      signal.cancelled = true;
+    };
+  }, [loadStudios]);
+
+  const handleUpdated = (updated: StudioSummary) => {
+    setResult(prev =>
+      prev ? { ...prev, studios: prev.studios.map(studio => (studio.id === updated.id ? { ...studio, ...updated } : studio)) } : prev
+    );
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.limit)) : 1;
+
+  return (
+    <section className="mt-16 max-w-3xl mx-auto">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <h3 className="text-xl font-semibold text-gray-900">Your studios</h3>
+        <div className="mt-3 sm:mt-0 relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search studios"
+            className="pl-9 block w-full sm:w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 bg-white shadow rounded-2xl overflow-hidden">
+        {error ? (
+          <div className="p-6 text-center">
+            <p className="text-sm text-red-600">{error}</p>
+            <button
+              onClick={() => loadStudios()}
+              className="mt-3 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Try again
+            </button>
+          </div>
+        ) : !result ? (
+          <div className="p-6 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent"></div>
+          </div>
+        ) : result.studios.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">
+            {query ? `No studios match "${query}".` : 'Studios you create or join will show up here.'}
+          </p>
+        ) : (
+          <ul className={`divide-y divide-gray-200 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+            {result.studios.map(studio => (
+              <StudioRow
+                key={studio.id}
+                studio={studio}
+                canManage={studio.createdBy === user?.id}
+                onEnter={() => navigate(`/room/${studio.id}/lobby`)}
+                onOpenRecordings={() => navigate(`/studios/${studio.id}/recordings`)}
+                onUpdated={handleUpdated}
+                onDeleted={() => loadStudios()}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {result && totalPages > 1 && (
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || isLoading}
+            className="inline-flex items-center px-3 py-1.5 rounded-md bg-white shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="inline-flex items-center px-3 py-1.5 rounded-md bg-white shadow-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default StudioList;
@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { formatDuration } from '../lib/recording';
+import { RecordingTrack } from '../lib/recordingLibrary';
+
+// Drift, in seconds, a track may wander from the shared clock before it is reseeked
+const MAX_DRIFT_SECONDS = 0.25;
+
+interface SyncedPlayerProps {
+  tracks: RecordingTrack[];
+  // Milliseconds each track starts after the earliest one
+  offsets: Record<string, number>;
+}
+
+// Plays several tracks side by side against one shared clock, so everyone
+// is heard and seen at the moment they actually recorded it
+const SyncedPlayer: React.FC<SyncedPlayerProps> = ({ tracks, offsets }) => {
+  const videoRefs = useRef(new Map<string, HTMLVideoElement>());
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const positionRef = useRef(0);
+  // Bumped on every seek so a running clock restarts from the new position
+  const [seekCount, setSeekCount] = useState(0);
+
+  const totalSeconds = Math.max(0, ...tracks.map(track => ((offsets[track.id] ?? 0) + track.durationMs) / 1000));
+
+  // Puts every track where the shared clock says it should be
+  const syncTracks = (seconds: number, playing: boolean) => {
+    tracks.forEach(track => {
+      const video = videoRefs.current.get(track.id);
+      if (!video) return;
+      const target = seconds - (offsets[track.id] ?? 0) / 1000;
+      const inRange = target >= 0 && target < track.durationMs / 1000;
+      if (!playing || !inRange) {
+        if (!video.paused) video.pause();
+        const clamped = Math.min(Math.max(target, 0), track.durationMs / 1000);
+        if (Math.abs(video.currentTime - clamped) > MAX_DRIFT_SECONDS) video.currentTime = clamped;
+        return;
+      }
+      if (Math.abs(video.currentTime - target) > MAX_DRIFT_SECONDS) video.currentTime = target;
+      if (video.paused) {
+        video.play().catch(error => console.error('Failed to play track:', error));
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!isPlaying) {
+      syncTracks(positionRef.current, false);
+      return;
+    }
+    const startedAt = performance.now();
+    const startPosition = positionRef.current;
+    let frame = requestAnimationFrame(function tick() {
+      const seconds = Math.min(startPosition + (performance.now() - startedAt) / 1000, totalSeconds);
+      positionRef.current = seconds;
+      setPosition(seconds);
+      syncTracks(seconds, true);
+      if (seconds >= totalSeconds) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+    // The clock restarts only on play, pause and seek
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPlaying, seekCount, tracks, offsets]);
+
+  const seek = (seconds: number) => {
+    positionRef.current = seconds;
+    setPosition(seconds);
+    if (isPlaying) {
+      setSeekCount(count => count + 1);
+    } else {
+      syncTracks(seconds, false);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (!isPlaying && positionRef.current >= totalSeconds) {
+      positionRef.current = 0;
+      setPosition(0);
+    }
+    setIsPlaying(playing => !playing);
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-2xl p-4 shadow">
+      <div className={`grid gap-4 ${tracks.length > 1 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+        {tracks.map(track => (
+          <div key={track.id} className="relative aspect-video rounded-lg overflow-hidden bg-gray-800">
+            <video
+              ref={element => {
+                if (element) videoRefs.current.set(track.id, element);
+                else videoRefs.current.delete(track.id);
+              }}
+              src={track.mediaUrl}
+              playsInline
+              preload="metadata"
+              className="w-full h-full object-contain bg-black"
+            />
+            <div className="absolute bottom-3 left-3 text-white bg-black bg-opacity-50 py-1 px-2 rounded-md text-sm">
+              {track.username}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center text-white">
+        <button
+          onClick={togglePlayback}
+          disabled={tracks.length === 0}
+          className="p-2 rounded-full bg-gray-700 hover:bg-gray-600 focus:outline-none disabled:opacity-50"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={totalSeconds}
+          step={0.1}
+          value={position}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="mx-4 flex-grow accent-blue-500"
+        />
+        <span className="font-mono text-sm text-gray-300">
+          {formatDuration(position * 1000)} / {formatDuration(totalSeconds * 1000)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SyncedPlayer;
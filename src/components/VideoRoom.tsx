@@ -1,8 +1,42 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Mic, MicOff, Video as VideoIcon, VideoOff, Phone, Share, PhoneCall } from 'lucide-react';
+import { Mic, MicOff, Video as VideoIcon, VideoOff, Phone, Share, Users, Circle, Square, Pause, Play, WifiOff, Settings, MessageSquare, Lock, Unlock, Info, X } from 'lucide-react';
 import { useCall } from '../context/CallContext';
-import { ConnectionState } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { CallPhase, Participant, ParticipantRole, RecordingStatus } from '../types';
+import { formatDuration, getRecordingElapsed } from '../lib/recording';
+import { computeLayout, LayoutMode, loadLayoutMode, saveLayoutMode } from '../lib/layout';
+import { useElementSize } from '../hooks/useElementSize';
+import { environment } from '../environment';
+import { canManageStudio, canModerate, canSendMedia, ROLE_LABELS } from '../lib/roles';
+import { isInCall } from '../lib/callLifecycle';
+import VideoTile from './VideoTile';
+import DeviceSettingsPanel from './DeviceSettingsPanel';
+import ChatPanel from './ChatPanel';
+import LayoutPicker from './LayoutPicker';
+import ParticipantMenu from './ParticipantMenu';
+import InviteButton from './InviteButton';
+import CallErrorNotice from './CallErrorNotice';
+
+// Header status for each call phase; the dot pulses while something is in flight
+const PHASE_STATUS: Record<CallPhase, { label: string; dotClassName: string }> = {
+  [CallPhase.IDLE]: { label: 'Disconnected', dotClassName: 'bg-gray-400' },
+  [CallPhase.ACQUIRING_MEDIA]: { label: 'Starting devices...', dotClassName: 'bg-yellow-400 animate-pulse' },
+  [CallPhase.SIGNALING]: { label: 'Connecting...', dotClassName: 'bg-yellow-400 animate-pulse' },
+  [CallPhase.NEGOTIATING]: { label: 'Connecting to participants...', dotClassName: 'bg-yellow-400 animate-pulse' },
+  [CallPhase.CONNECTED]: { label: 'Connected', dotClassName: 'bg-green-400' },
+  [CallPhase.RECORDING]: { label: 'Connected', dotClassName: 'bg-green-400' },
+  [CallPhase.RECONNECTING]: { label: 'Reconnecting...', dotClassName: 'bg-yellow-400 animate-pulse' },
+  [CallPhase.LEAVING]: { label: 'Leaving...', dotClassName: 'bg-gray-400' },
+  [CallPhase.FAILED]: { label: 'Connection error', dotClassName: 'bg-red-500' },
+};
+
+// Phases that cover the stage with a spinner and a message
+const PHASE_OVERLAYS: Partial<Record<CallPhase, string>> = {
+  [CallPhase.ACQUIRING_MEDIA]: 'Starting your camera and microphone...',
+  [CallPhase.SIGNALING]: 'Connecting to session...',
+  [CallPhase.LEAVING]: 'Leaving the studio...',
+};
 
 const VideoRoom: React.FC = () => {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -10,56 +44,211 @@ const VideoRoom: React.FC = () => {
   const {
     callState,
     mediaState,
+    mediaPreferences,
     toggleAudio,
     toggleVideo,
     toggleScreenShare,
     leaveSession,
-    initiateCall,
+    recordingState,
+    startRecording,
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+    peerStats,
+    lowBandwidthMode,
+    chatMessages,
+    activeSpeakerId,
+    localRole,
+    moderationNotice,
+    dismissModerationNotice,
+    setStudioLocked,
+    rehydrateSession,
+    retryMissingMedia,
   } = useCall();
+  const { user } = useAuth();
   
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const [isCallStarted, setIsCallStarted] = useState(false);
-  
+  const remotePeerIds = Object.keys(mediaState.remoteStreams);
+
+  // Opened directly or reloaded: nothing is running for this room yet, so
+  // fetch the studio, reacquire media and reconnect on our own
   useEffect(() => {
-    if (mediaState.localStream && localVideoRef.current) {
-      console.log('Setting local video stream');
-      localVideoRef.current.srcObject = mediaState.localStream;
+    if (sessionId && callState.sessionId !== sessionId) {
+      rehydrateSession(sessionId);
     }
-  }, [mediaState.localStream]);
-  
+    // Only on arrival; later state changes (e.g. being removed) must not rejoin
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(() => loadLayoutMode(user?.id));
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  const [sessionIdCopied, setSessionIdCopied] = useState(false);
+  // Shown for copying by hand when the browser refuses clipboard access
+  const [showManualSessionId, setShowManualSessionId] = useState(false);
+
+  useEffect(() => {
+    if (!sessionIdCopied) return;
+    const timeout = window.setTimeout(() => setSessionIdCopied(false), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [sessionIdCopied]);
+  const { ref: stageRef, width: stageWidth, height: stageHeight } = useElementSize<HTMLDivElement>();
+  // Number of chat messages already seen with the panel open
+  const [readChatCount, setReadChatCount] = useState(0);
+  const unreadChatCount = isChatOpen
+    ? 0
+    : chatMessages.slice(readChatCount).filter(message => message.from !== user?.id).length;
+
+  useEffect(() => {
+    if (isChatOpen) setReadChatCount(chatMessages.length);
+  }, [isChatOpen, chatMessages.length]);
+  const isRecording = recordingState.status !== RecordingStatus.IDLE;
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+
   useEffect(() => {
-    console.log('Remote stream changed:', mediaState.remoteStream);
-    if (mediaState.remoteStream && remoteVideoRef.current) {
-      console.log('Setting remote video stream with tracks:', mediaState.remoteStream.getTracks().map(t => t.kind));
-      remoteVideoRef.current.srcObject = mediaState.remoteStream;
-      setIsCallStarted(true);
+    setRecordingElapsed(getRecordingElapsed(recordingState));
+    if (recordingState.status !== RecordingStatus.RECORDING) return;
+    const interval = window.setInterval(() => {
+      setRecordingElapsed(getRecordingElapsed(recordingState));
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [recordingState]);
+
+  const findParticipant = (peerId: string) => callState.participants.find(p => p.id === peerId);
+
+  // Hosts, co-hosts and viewers are called out next to their name
+  const roleSuffix = (participant?: Participant) =>
+    participant && participant.role !== ParticipantRole.GUEST ? ` (${ROLE_LABELS[participant.role]})` : '';
+
+  useEffect(() => {
+    if (!moderationNotice) return;
+    const timeout = window.setTimeout(dismissModerationNotice, 6000);
+    return () => window.clearTimeout(timeout);
+  }, [moderationNotice, dismissModerationNotice]);
+
+  const isWaitingForOthers = isInCall(callState.phase) && remotePeerIds.length === 0;
+  const phaseStatus = PHASE_STATUS[callState.phase];
+  const phaseOverlay = PHASE_OVERLAYS[callState.phase];
+  const localTileId = user?.id ?? 'local';
+  const screenTileId = (participantId: string) => `${participantId}:screen`;
+  const remoteScreenIds = Object.keys(mediaState.remoteScreenStreams);
+  const screenTileIds = [
+    ...(mediaState.screenStream ? [screenTileId(localTileId)] : []),
+    ...remoteScreenIds.map(screenTileId),
+  ];
+
+  // Focused layouts follow whoever is talking, but never feature ourselves;
+  // while we talk the last remote speaker stays on stage
+  const [featuredPeerId, setFeaturedPeerId] = useState<string | null>(null);
+  useEffect(() => {
+    if (activeSpeakerId && activeSpeakerId in mediaState.remoteStreams) {
+      setFeaturedPeerId(activeSpeakerId);
+    } else if (!featuredPeerId || !(featuredPeerId in mediaState.remoteStreams)) {
+      setFeaturedPeerId(Object.keys(mediaState.remoteStreams)[0] ?? null);
     }
-  }, [mediaState.remoteStream]);
-  
+  }, [activeSpeakerId, featuredPeerId, mediaState.remoteStreams]);
+
+  const layout = computeLayout({
+    mode: layoutMode,
+    tileIds: [localTileId, ...screenTileIds, ...remotePeerIds],
+    screenShareIds: screenTileIds,
+    localId: localTileId,
+    speakerId: featuredPeerId,
+    pinnedId,
+    placeholderCount: isWaitingForOthers ? 1 : 0,
+    width: stageWidth,
+    height: stageHeight,
+  });
+
+  const handleLayoutChange = (mode: LayoutMode) => {
+    setLayoutMode(mode);
+    saveLayoutMode(user?.id, mode);
+  };
+
+  const togglePin = (tileId: string) => {
+    setPinnedId(current => (current === tileId ? null : tileId));
+  };
+
+  const renderTile = (tileId: string) => {
+    if (tileId === screenTileId(localTileId)) {
+      return (
+        <VideoTile
+          key={tileId}
+          stream={mediaState.screenStream}
+          label="Your screen"
+          muted
+          isScreenShare
+          isPinned={pinnedId === tileId}
+          onTogglePin={() => togglePin(tileId)}
+        />
+      );
+    }
+    const sharerId = remoteScreenIds.find(peerId => screenTileId(peerId) === tileId);
+    if (sharerId) {
+      return (
+        <VideoTile
+          key={tileId}
+          stream={mediaState.remoteScreenStreams[sharerId]}
+          label={`${findParticipant(sharerId)?.username || 'Participant'}'s screen`}
+          isScreenShare
+          audioOutputId={mediaPreferences.audioOutputId}
+          isPinned={pinnedId === tileId}
+          onTogglePin={() => togglePin(tileId)}
+        />
+      );
+    }
+    if (tileId === localTileId) {
+      return (
+        <VideoTile
+          key={tileId}
+          stream={mediaState.localStream}
+          label={`You ${!mediaState.audioEnabled ? '(muted)' : ''}`}
+          muted
+          videoEnabled={mediaState.videoEnabled}
+          placeholder="You"
+          isSpeaking={activeSpeakerId === localTileId && mediaState.audioEnabled}
+          isPinned={pinnedId === tileId}
+          onTogglePin={() => togglePin(tileId)}
+        />
+      );
+    }
+    const participant = findParticipant(tileId);
+    return (
+      <VideoTile
+        key={tileId}
+        stream={mediaState.remoteStreams[tileId]}
+        label={`${participant?.username || 'Participant'}${roleSuffix(participant)}`}
+        videoEnabled={participant?.videoEnabled ?? true}
+        audioEnabled={participant?.audioEnabled ?? true}
+        isRecording={!!participant && participant.recordingStatus !== RecordingStatus.IDLE}
+        audioOutputId={mediaPreferences.audioOutputId}
+        stats={peerStats[tileId]}
+        isSpeaking={activeSpeakerId === tileId && (participant?.audioEnabled ?? true)}
+        isPinned={pinnedId === tileId}
+        onTogglePin={() => togglePin(tileId)}
+        actions={participant && canModerate(localRole) ? <ParticipantMenu participant={participant} /> : undefined}
+      />
+    );
+  };
+
   const handleLeaveCall = () => {
     leaveSession();
     navigate('/dashboard');
   };
   
-  const handleStartCall = async () => {
+  const copySessionId = async () => {
+    if (!sessionId) return;
     try {
-      await initiateCall();
-      setIsCallStarted(true);
+      await navigator.clipboard.writeText(sessionId);
+      setSessionIdCopied(true);
     } catch (error) {
-      console.error('Failed to start call:', error);
-    }
-  };
-  
-  const copySessionId = () => {
-    if (sessionId) {
-      navigator.clipboard.writeText(sessionId);
-      alert('Session ID copied to clipboard');
+      console.error('Failed to copy session ID:', error);
+      setShowManualSessionId(true);
     }
   };
 
   return (
-    <div className="h-screen flex flex-col bg-gray-900">
+    <div className="h-screen flex flex-col bg-gray-900 relative">
       <header className="bg-gray-800 px-4 py-3 flex items-center justify-between">
         <div className="flex items-center">
           <h1 className="text-white font-medium">Video Conference</h1>
@@ -68,122 +257,181 @@ const VideoRoom: React.FC = () => {
             <span className="bg-gray-700 text-gray-100 px-3 py-1 rounded text-sm font-mono">
               {sessionId}
             </span>
-            <button
-              onClick={copySessionId}
-              className="ml-2 text-gray-400 hover:text-gray-200 text-xs underline"
-            >
-              Copy
-            </button>
+            <div className="relative ml-2">
+              <button
+                onClick={copySessionId}
+                className="text-gray-400 hover:text-gray-200 text-xs underline"
+              >
+                {sessionIdCopied ? 'Copied' : 'Copy'}
+              </button>
+              {showManualSessionId && sessionId && (
+                <div className="absolute left-0 mt-1 z-20 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs text-gray-300">Copy this session ID:</p>
+                    <button onClick={() => setShowManualSessionId(false)} className="text-gray-400 hover:text-white" aria-label="Close">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    readOnly
+                    value={sessionId}
+                    onFocus={event => event.target.select()}
+                    autoFocus
+                    className="w-full px-2 py-1 text-xs bg-gray-900 text-gray-200 border border-gray-700 rounded font-mono"
+                  />
+                </div>
+              )}
+            </div>
+            {sessionId && <InviteButton sessionId={sessionId} canCreateInvites={canModerate(localRole)} />}
           </div>
         </div>
-        <div className="text-gray-400 text-sm">
-          {callState.connectionState === ConnectionState.CONNECTING ? (
-            <span className="flex items-center">
-              <span className="h-2 w-2 bg-yellow-400 rounded-full mr-2 animate-pulse"></span>
-              Connecting...
+        <div className="flex items-center space-x-4">
+          {isRecording && (
+            <span
+              className={`flex items-center text-sm font-medium px-3 py-1 rounded-full ${
+                recordingState.status === RecordingStatus.RECORDING ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-200'
+              }`}
+            >
+              <span
+                className={`h-2 w-2 rounded-full mr-2 ${
+                  recordingState.status === RecordingStatus.RECORDING ? 'bg-white animate-pulse' : 'bg-gray-400'
+                }`}
+              ></span>
+              {recordingState.status === RecordingStatus.RECORDING ? 'REC' : 'Paused'}
+              <span className="ml-2 font-mono">{formatDuration(recordingElapsed)}</span>
             </span>
-          ) : callState.connectionState === ConnectionState.CONNECTED ? (
-            <span className="flex items-center">
-              <span className="h-2 w-2 bg-green-400 rounded-full mr-2"></span>
-              Connected
+          )}
+          {canManageStudio(localRole) ? (
+            <button
+              onClick={() => setStudioLocked(!callState.isLocked)}
+              className={`flex items-center text-xs font-medium px-2 py-0.5 rounded-full ${
+                callState.isLocked ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+              title={callState.isLocked ? 'Unlock the studio' : 'Lock the studio against new joiners'}
+            >
+              {callState.isLocked ? <Lock className="h-3 w-3 mr-1" /> : <Unlock className="h-3 w-3 mr-1" />}
+              {callState.isLocked ? 'Locked' : 'Unlocked'}
+            </button>
+          ) : callState.isLocked && (
+            <span className="flex items-center text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-500 text-gray-900">
+              <Lock className="h-3 w-3 mr-1" />
+              Locked
             </span>
-          ) : callState.connectionState === ConnectionState.ERROR ? (
-            <span className="flex items-center">
-              <span className="h-2 w-2 bg-red-500 rounded-full mr-2"></span>
-              Connection error
+          )}
+          {lowBandwidthMode && (
+            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">
+              Low bandwidth
             </span>
-          ) : (
+          )}
+          <div className="text-gray-400 text-sm">
             <span className="flex items-center">
-              <span className="h-2 w-2 bg-gray-400 rounded-full mr-2"></span>
-              Disconnected
+              <span className={`h-2 w-2 rounded-full mr-2 ${phaseStatus.dotClassName}`}></span>
+              {phaseStatus.label}
             </span>
-          )}
+          </div>
         </div>
       </header>
       
-      <div className="flex-1 flex flex-col md:flex-row p-4 gap-4 relative overflow-hidden">
-        <div className={`${mediaState.remoteStream ? 'md:w-1/2' : 'w-full'} h-full relative rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center shadow-lg transition-all duration-300`}>
-          <video
-            ref={localVideoRef}
-            autoPlay
-            playsInline
-            muted
-            className={`w-full h-full object-cover ${!mediaState.videoEnabled && 'hidden'}`}
-          />
-          {!mediaState.videoEnabled && (
-            <div className="absolute inset-0 flex items-center justify-center bg-gray-800">
-              <div className="h-20 w-20 rounded-full bg-gray-700 flex items-center justify-center">
-                <span className="text-2xl text-gray-300">You</span>
-              </div>
-            </div>
-          )}
-          <div className="absolute bottom-4 left-4 text-white bg-black bg-opacity-50 py-1 px-2 rounded-md text-sm">
-            You {!mediaState.audioEnabled && '(muted)'}
-          </div>
+      {callState.phase === CallPhase.RECONNECTING && (
+        <div className="bg-yellow-500 text-gray-900 px-4 py-2 flex items-center justify-center text-sm font-medium">
+          <WifiOff className="h-4 w-4 mr-2" />
+          Connection lost. Trying to reconnect... Your call will resume automatically.
         </div>
-        
-        {mediaState.remoteStream ? (
-          <div className="md:w-1/2 h-full relative rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center shadow-lg">
-            <video
-              ref={remoteVideoRef}
-              autoPlay
-              playsInline
-              className="w-full h-full object-cover"
-            />
-            <div className="absolute bottom-4 left-4 text-white bg-black bg-opacity-50 py-1 px-2 rounded-md text-sm">
-              Remote User
-            </div>
-          </div>
-        ) : callState.connectionState === ConnectionState.CONNECTED && !isCallStarted ? (
-          <div className="md:w-1/2 h-full relative rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center shadow-lg">
-            <div className="text-center">
-              <button
-                onClick={handleStartCall}
-                className="inline-flex items-center px-6 py-3 border border-transparent text-lg font-medium rounded-full text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                <PhoneCall className="mr-2 h-6 w-6" />
-                Join Call
-              </button>
-              <p className="mt-4 text-gray-400">Click to join the video call</p>
+      )}
+      
+      {mediaState.mediaError ? (
+        <div className="bg-gray-800 px-4 py-2">
+          <CallErrorNotice reason={mediaState.mediaError} onRetry={retryMissingMedia} />
+        </div>
+      ) : mediaState.localStream && (!mediaState.capabilities.audio || !mediaState.capabilities.video) && (
+        <div className="bg-gray-700 text-gray-200 px-4 py-2 flex items-center justify-center text-sm">
+          <Info className="h-4 w-4 mr-2" />
+          {mediaState.capabilities.audio
+            ? 'You joined with audio only, so others cannot see you.'
+            : 'Your camera and microphone are unavailable, so others cannot see or hear you. You can still watch and listen.'}
+        </div>
+      )}
+
+      {moderationNotice && (
+        <div className="bg-blue-600 text-white px-4 py-2 flex items-center justify-center text-sm font-medium">
+          <Info className="h-4 w-4 mr-2" />
+          {moderationNotice}
+          <button onClick={dismissModerationNotice} className="ml-3 text-blue-100 hover:text-white">
+            <span className="sr-only">Dismiss</span>
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 min-w-0 relative overflow-hidden">
+          <div className="h-full flex flex-col p-4 gap-4">
+            <div
+              ref={stageRef}
+              className="flex-1 min-h-0 grid gap-4"
+              style={{
+                gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))`,
+                gridTemplateRows: `repeat(${layout.rows}, minmax(0, 1fr))`,
+              }}
+            >
+              {layout.stage.map(renderTile)}
+          
+              {isWaitingForOthers && (
+                <div className="h-full relative rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center shadow-lg">
+                  <div className="text-center px-6">
+                    <div className="h-16 w-16 mx-auto rounded-full bg-gray-700 flex items-center justify-center">
+                      <Users className="h-8 w-8 text-gray-300" />
+                    </div>
+                    <p className="mt-4 text-white text-lg font-medium">Waiting for others to join</p>
+                    <p className="mt-2 text-gray-400 text-sm">Share the session ID and they will connect automatically.</p>
+                  </div>
+                </div>
+              )}
             </div>
+            {layout.filmstrip.length > 0 && (
+              <div className="h-32 flex-shrink-0 flex gap-4 overflow-x-auto">
+                {layout.filmstrip.map(tileId => (
+                  <div key={tileId} className="w-48 flex-shrink-0">{renderTile(tileId)}</div>
+                ))}
+              </div>
+            )}
           </div>
-        ) : null}
         
-        {callState.connectionState === ConnectionState.CONNECTING && (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75">
-            <div className="text-center">
-              <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-white border-t-transparent"></div>
-              <p className="mt-4 text-white text-lg">Connecting to session...</p>
+          {phaseOverlay && (
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75">
+              <div className="text-center">
+                <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-white border-t-transparent"></div>
+                <p className="mt-4 text-white text-lg">{phaseOverlay}</p>
+              </div>
             </div>
-          </div>
-        )}
+          )}
         
-        {callState.connectionState === ConnectionState.ERROR && (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75">
-            <div className="text-center max-w-md p-6 bg-gray-800 rounded-lg">
-              <div className="h-12 w-12 rounded-full bg-red-100 mx-auto flex items-center justify-center">
-                <Phone className="h-6 w-6 text-red-600" />
+          {callState.phase === CallPhase.FAILED && (
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75">
+              <div className="max-w-md w-full p-6 bg-gray-800 rounded-lg">
+                {/* A failed call has been torn down, so retrying rejoins from scratch with fresh media */}
+                <CallErrorNotice
+                  reason={callState.error ?? 'unknown'}
+                  onRetry={sessionId ? () => rehydrateSession(sessionId) : undefined}
+                  onAudioOnly={sessionId ? () => rehydrateSession(sessionId, { audioOnly: true }) : undefined}
+                  onDashboard={handleLeaveCall}
+                />
               </div>
-              <h3 className="mt-4 text-white text-lg font-medium">Connection Error</h3>
-              <p className="mt-2 text-gray-300">{callState.error || 'Failed to connect. Please try again later.'}</p>
-              <button
-                onClick={handleLeaveCall}
-                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-              >
-                Return to Dashboard
-              </button>
             </div>
-          </div>
-        )}
+          )}
+        </div>
+        {environment.features.chat && <ChatPanel isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />}
       </div>
       
       <div className="bg-gray-800 px-4 py-3 flex items-center justify-center space-x-4">
         <button
           onClick={toggleAudio}
-          className={`p-3 rounded-full focus:outline-none transition-colors duration-200 ${
+          disabled={!mediaState.capabilities.audio || (!mediaState.audioEnabled && !canSendMedia(localRole))}
+          className={`p-3 rounded-full focus:outline-none transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
             mediaState.audioEnabled ? 'bg-gray-700 hover:bg-gray-600' : 'bg-red-600 hover:bg-red-500'
           }`}
-          title={mediaState.audioEnabled ? 'Mute microphone' : 'Unmute microphone'}
+          title={!mediaState.capabilities.audio ? 'No microphone available' : mediaState.audioEnabled ? 'Mute microphone' : 'Unmute microphone'}
         >
           {mediaState.audioEnabled ? (
             <Mic className="h-6 w-6 text-white" />
@@ -194,10 +442,11 @@ const VideoRoom: React.FC = () => {
         
         <button
           onClick={toggleVideo}
-          className={`p-3 rounded-full focus:outline-none transition-colors duration-200 ${
+          disabled={!mediaState.capabilities.video || (!mediaState.videoEnabled && !canSendMedia(localRole))}
+          className={`p-3 rounded-full focus:outline-none transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
             mediaState.videoEnabled ? 'bg-gray-700 hover:bg-gray-600' : 'bg-red-600 hover:bg-red-500'
           }`}
-          title={mediaState.videoEnabled ? 'Turn off camera' : 'Turn on camera'}
+          title={!mediaState.capabilities.video ? 'No camera available' : mediaState.videoEnabled ? 'Turn off camera' : 'Turn on camera'}
         >
           {mediaState.videoEnabled ? (
             <VideoIcon className="h-6 w-6 text-white" />
@@ -206,14 +455,79 @@ const VideoRoom: React.FC = () => {
           )}
         </button>
         
+        {environment.features.screenShare && (
+          <button
+            onClick={toggleScreenShare}
+            disabled={!mediaState.isSharingScreen && !canSendMedia(localRole)}
+            className={`p-3 rounded-full focus:outline-none transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+              mediaState.isSharingScreen ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title={mediaState.isSharingScreen ? 'Stop sharing screen' : 'Share screen'}
+          >
+            <Share className="h-6 w-6 text-white" />
+          </button>
+        )}
+        
+        {environment.features.recording && (
+          <>
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              disabled={!mediaState.capabilities.audio && !mediaState.capabilities.video}
+              className={`p-3 rounded-full focus:outline-none transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                isRecording ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title={isRecording ? 'Stop recording' : 'Start recording'}
+            >
+              {isRecording ? (
+                <Square className="h-6 w-6 text-white" />
+              ) : (
+                <Circle className="h-6 w-6 text-red-500 fill-current" />
+              )}
+            </button>
+        
+            {isRecording && (
+              <button
+                onClick={recordingState.status === RecordingStatus.PAUSED ? resumeRecording : pauseRecording}
+                className="p-3 rounded-full bg-gray-700 hover:bg-gray-600 focus:outline-none transition-colors duration-200"
+                title={recordingState.status === RecordingStatus.PAUSED ? 'Resume recording' : 'Pause recording'}
+              >
+                {recordingState.status === RecordingStatus.PAUSED ? (
+                  <Play className="h-6 w-6 text-white" />
+                ) : (
+                  <Pause className="h-6 w-6 text-white" />
+                )}
+              </button>
+            )}
+          </>
+        )}
+        
+        <LayoutPicker mode={layoutMode} onChange={handleLayoutChange} />
+        
+        {environment.features.chat && (
+          <button
+            onClick={() => setIsChatOpen(open => !open)}
+            className={`relative p-3 rounded-full focus:outline-none transition-colors duration-200 ${
+              isChatOpen ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title={isChatOpen ? 'Hide chat' : 'Show chat'}
+          >
+            <MessageSquare className="h-6 w-6 text-white" />
+            {unreadChatCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-medium flex items-center justify-center">
+                {unreadChatCount > 9 ? '9+' : unreadChatCount}
+              </span>
+            )}
+          </button>
+        )}
+        
         <button
-          onClick={toggleScreenShare}
+          onClick={() => setIsSettingsOpen(open => !open)}
           className={`p-3 rounded-full focus:outline-none transition-colors duration-200 ${
-            mediaState.isSharingScreen ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+            isSettingsOpen ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
           }`}
-          title={mediaState.isSharingScreen ? 'Stop sharing screen' : 'Share screen'}
+          title="Audio and video settings"
         >
-          <Share className="h-6 w-6 text-white" />
+          <Settings className="h-6 w-6 text-white" />
         </button>
         
         <button
@@ -224,6 +538,8 @@ const VideoRoom: React.FC = () => {
           <Phone className="h-6 w-6 text-white transform rotate-135" />
         </button>
       </div>
+      
+      <DeviceSettingsPanel isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MicOff, Pin, PinOff } from 'lucide-react';
+import { supportsAudioOutputSelection } from '../lib/devices';
+import { PeerStats } from '../types';
+import SignalBadge from './SignalBadge';
+import StatsOverlay from './StatsOverlay';
+
+interface VideoTileProps {
+  stream: MediaStream | null;
+  label: string;
+  muted?: boolean;
+  videoEnabled?: boolean;
+  audioEnabled?: boolean;
+  isRecording?: boolean;
+  placeholder?: string;
+  // Speaker to play this tile's audio through, where the browser supports choosing
+  audioOutputId?: string | null;
+  // Connection stats for remote tiles; omitted for the local preview
+  stats?: PeerStats;
+  // Highlights the tile while this participant is the active speaker
+  isSpeaking?: boolean;
+  isPinned?: boolean;
+  onTogglePin?: () => void;
+  // Screens are letterboxed rather than cropped so no content is cut off
+  isScreenShare?: boolean;
+  // Extra controls shown in the tile's top-right corner
+  actions?: React.ReactNode;
+}
+
+const VideoTile: React.FC<VideoTileProps> = ({
+  stream,
+  label,
+  muted = false,
+  videoEnabled = true,
+  audioEnabled = true,
+  isRecording = false,
+  placeholder,
+  audioOutputId,
+  stats,
+  isSpeaking = false,
+  isPinned = false,
+  onTogglePin,
+  isScreenShare = false,
+  actions,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && audioOutputId && supportsAudioOutputSelection()) {
+      video.setSinkId(audioOutputId).catch(error => {
+        console.error('Failed to switch speaker:', error);
+      });
+    }
+  }, [audioOutputId]);
+
+  return (
+    <div
+      className={`group h-full min-h-0 relative rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center shadow-lg transition-all duration-300 ring-inset ${
+        isSpeaking ? 'ring-4 ring-green-400' : 'ring-0'
+      }`}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={muted}
+        className={`w-full h-full ${isScreenShare ? 'object-contain bg-black' : 'object-cover'} ${!videoEnabled && 'hidden'}`}
+      />
+      {!videoEnabled && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-800">
+          <div className="h-20 w-20 rounded-full bg-gray-700 flex items-center justify-center">
+            <span className="text-2xl text-gray-300">{placeholder ?? label.charAt(0).toUpperCase()}</span>
+          </div>
+        </div>
+      )}
+      <div className="absolute bottom-4 left-4 flex items-center text-white bg-black bg-opacity-50 py-1 px-2 rounded-md text-sm">
+        {!audioEnabled && <MicOff className="h-4 w-4 mr-1 text-red-400" />}
+        {label}
+      </div>
+      {isRecording && (
+        <div className="absolute top-4 left-4 flex items-center text-white bg-red-600 bg-opacity-90 py-0.5 px-2 rounded-md text-xs font-medium">
+          <span className="h-1.5 w-1.5 bg-white rounded-full mr-1.5 animate-pulse"></span>
+          REC
+        </div>
+      )}
+      <div className="absolute top-4 right-4 flex items-center space-x-2">
+        {onTogglePin && (
+          <button
+            onClick={onTogglePin}
+            className={`p-1 rounded-md bg-black bg-opacity-50 hover:bg-opacity-70 focus:outline-none transition-opacity duration-200 ${
+              isPinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+            }`}
+            title={isPinned ? 'Unpin' : 'Pin'}
+          >
+            {isPinned ? <PinOff className="h-4 w-4 text-white" /> : <Pin className="h-4 w-4 text-white" />}
+          </button>
+        )}
+        {actions}
+        {stats && (
+          <SignalBadge quality={stats.quality} active={showStats} onClick={() => setShowStats(prev => !prev)} />
+        )}
+      </div>
+      {stats && showStats && <StatsOverlay stats={stats} />}
+    </div>
+  );
+};
+
+export default VideoTile;
@@ -2,7 +2,8 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { AuthState } from '../types';
-import axiosInstance from '../axios.config';
+import { fetchCurrentUser, login as loginRequest, signup } from '../api/auth';
+import { clearAuthToken, getAuthToken, onUnauthorized, setAuthToken } from '../api/client';
 
 // Create a context for authentication
 interface AuthContextType extends AuthState {
@@ -32,21 +33,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   useEffect(() => {
     const initializeAuth = async () => {
-      const token = localStorage.getItem('authToken');
-      if (token) {
+      if (getAuthToken()) {
         try {
-          const response = await axiosInstance.get('api/v1/auth/me', {
-            headers: { Authorization: `Bearer ${token}` },
-          });
+          const user = await fetchCurrentUser();
           setState({
-            user: response.data.user,
+            user,
             isAuthenticated: true,
             isLoading: false,
             error: null,
           });
         } catch (error) {
           console.error('Token validation failed:', error);
-          localStorage.removeItem('authToken');
+          clearAuthToken();
           setState({ ...initialState, isLoading: false });
         }
       } else {
@@ -57,18 +55,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     initializeAuth();
   }, []);
 
+  // Any request rejected with 401 means the token expired or was revoked
+  useEffect(() => onUnauthorized(() => {
+    clearAuthToken();
+    setState({ ...initialState, error: 'Your session has expired. Please log in again.' });
+  }), []);
+
   const login = async (email: string, password: string): Promise<void> => {
     setState({ ...state, isLoading: true, error: null });
 
     try {
       // Make API call to login endpoint
-      const response = await axiosInstance.post('api/v1/auth/login', { email, password });
-
-      // Assuming the API responds with a token and user details
-      const { token, user } = response.data;
+      const { token, user } = await loginRequest({ email, password });
 
-      // Save token to localStorage or cookies (optional)
-      localStorage.setItem('authToken', token);
+      setAuthToken(token);
       localStorage.setItem('user', JSON.stringify(user));
 
 
@@ -100,13 +100,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     try {
       // Make API call to register endpoint
-      const response = await axiosInstance.post('api/v1/auth/signup', { name, email, password });
+      const { token, user } = await signup({ name, email, password });
 
-      // Assuming the API responds with a token and user details
-      const { token, user } = response.data;
-
-      // Save token to localStorage or cookies (optional)
-      localStorage.setItem('authToken', token);
+      setAuthToken(token);
 
       setState({
         user,
@@ -132,7 +128,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Logout function
   const logout = (): void => {
     setState(initialState);
-    localStorage.removeItem('authToken'); // Clear token from localStorage
+    clearAuthToken();
   };
 
   // Check for token on initial load
@@ -141,26 +137,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     try {
       // Validate token and fetch user details
-      const response = await axiosInstance.get('api/v1/auth/me', {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (response.status !== 200) {
-        throw new Error('Token validation failed');
-      }else {
-        const user = response.data.user;
-        localStorage.setItem('user', JSON.stringify(user));
-      }
+      const user = await fetchCurrentUser(token);
+      localStorage.setItem('user', JSON.stringify(user));
 
       setState({
-        user: response.data.user,
+        user,
         isAuthenticated: true,
         isLoading: false,
         error: null,
       });
     } catch (error) {
       console.error('Failed to validate token:', error);
-      localStorage.removeItem('authToken'); // Clear invalid token
+      clearAuthToken(); // Clear invalid token
       setState({ ...initialState, isLoading: false });
     }
   }
@@ -0,0 +1,114 @@
+// Runtime settings. Build-time VITE_* variables provide the defaults, and a
+// config.json served next to the app can override them per deployment
+// without a rebuild. Everything that talks to the backend, REST or
+// WebSocket, reads its base URL from here.
+
+export interface FeatureFlags {
+  chat: boolean;
+  recording: boolean;
+  screenShare: boolean;
+}
+
+export interface RecordingLimits {
+  // How often the recorder hands out a chunk for upload
+  chunkIntervalMs: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  // Recordings stop on their own after this long; null for no limit
+  maxDurationMs: number | null;
+}
+
+export interface Environment {
+  apiBaseUrl: string;
+  wsBaseUrl: string;
+  // 'relay' forces every connection through TURN, for testing restrictive networks
+  iceTransportPolicy: RTCIceTransportPolicy;
+  // Used when the backend cannot hand out TURN credentials
+  fallbackIceServers: RTCIceServer[];
+  features: FeatureFlags;
+  recording: RecordingLimits;
+}
+
+const RUNTIME_CONFIG_URL = '/config.json';
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+const apiBaseUrl = trimSlashes(import.meta.env.VITE_BACKEND_URL || 'http://localhost:8000');
+
+export const environment: Environment = {
+  apiBaseUrl,
+  // Same host as the REST API unless the signaling server is deployed separately
+  wsBaseUrl: trimSlashes(import.meta.env.VITE_WS_URL || apiBaseUrl.replace(/^http/, 'ws')),
+  iceTransportPolicy: import.meta.env.VITE_ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all',
+  fallbackIceServers: [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' },
+    { urls: 'stun:stun2.l.google.com:19302' },
+    { urls: 'stun:stun3.l.google.com:19302' },
+    { urls: 'stun:stun4.l.google.com:19302' },
+  ],
+  features: {
+    chat: true,
+    recording: true,
+    screenShare: true,
+  },
+  recording: {
+    chunkIntervalMs: 10_000,
+    videoBitsPerSecond: 8_000_000,
+    audioBitsPerSecond: 128_000,
+    maxDurationMs: null,
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickBooleans = <T extends object>(defaults: T, overrides: unknown): T => {
+  if (!isRecord(overrides)) return defaults;
+  const result = { ...defaults } as Record<string, unknown>;
+  Object.keys(defaults).forEach(key => {
+    if (typeof overrides[key] === 'boolean') result[key] = overrides[key];
+  });
+  return result as T;
+};
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+// Fetches config.json and applies whatever it sets over the build defaults.
+// A missing or broken file leaves the defaults in place.
+export const loadRuntimeConfig = async (): Promise<void> => {
+  let config: unknown;
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+    if (!response.ok) return;
+    config = await response.json();
+  } catch (error) {
+    console.warn('Could not load runtime config, using build defaults:', error);
+    return;
+  }
+  if (!isRecord(config)) return;
+
+  if (typeof config.apiBaseUrl === 'string') {
+    environment.apiBaseUrl = trimSlashes(config.apiBaseUrl);
+    environment.wsBaseUrl = environment.apiBaseUrl.replace(/^http/, 'ws');
+  }
+  if (typeof config.wsBaseUrl === 'string') environment.wsBaseUrl = trimSlashes(config.wsBaseUrl);
+  if (config.iceTransportPolicy === 'relay' || config.iceTransportPolicy === 'all') {
+    environment.iceTransportPolicy = config.iceTransportPolicy;
+  }
+  if (Array.isArray(config.fallbackIceServers)) {
+    environment.fallbackIceServers = config.fallbackIceServers as RTCIceServer[];
+  }
+  environment.features = pickBooleans(environment.features, config.features);
+
+  if (isRecord(config.recording)) {
+    const { chunkIntervalMs, videoBitsPerSecond, audioBitsPerSecond, maxDurationMs } = config.recording;
+    environment.recording = {
+      chunkIntervalMs: isPositiveNumber(chunkIntervalMs) ? chunkIntervalMs : environment.recording.chunkIntervalMs,
+      videoBitsPerSecond: isPositiveNumber(videoBitsPerSecond) ? videoBitsPerSecond : environment.recording.videoBitsPerSecond,
+      audioBitsPerSecond: isPositiveNumber(audioBitsPerSecond) ? audioBitsPerSecond : environment.recording.audioBitsPerSecond,
+      maxDurationMs:
+        isPositiveNumber(maxDurationMs) || maxDurationMs === null ? maxDurationMs : environment.recording.maxDurationMs,
+    };
+  }
+};
@@ -0,0 +1,20 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Tracks the rendered size of an element through ResizeObserver
+export const useElementSize = <T extends HTMLElement>() => {
+  const ref = useRef<T>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return { ref, ...size };
+};
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listMediaDevices, MediaDeviceLists } from '../lib/devices';
+
+const emptyDeviceLists: MediaDeviceLists = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+// Available cameras, microphones and speakers, kept current as devices are plugged in or out
+export const useMediaDevices = () => {
+  const [devices, setDevices] = useState<MediaDeviceLists>(emptyDeviceLists);
+
+  const refresh = useCallback(() => {
+    listMediaDevices().then(setDevices).catch(error => console.error('Failed to list devices:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+};
@@ -0,0 +1,39 @@
+// Measures how loud a stream's audio is using the Web Audio API.
+
+export interface AudioLevelMeter {
+  // Current level between 0 (silence) and 1 (full scale)
+  getLevel: () => number;
+  dispose: () => void;
+}
+
+const FFT_SIZE = 512;
+
+// Pass a shared AudioContext when metering many streams; otherwise the meter
+// creates (and closes) its own.
+export const createAudioLevelMeter = (stream: MediaStream, sharedContext?: AudioContext): AudioLevelMeter => {
+  const audioContext = sharedContext ?? new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sumOfSquares = 0;
+      for (const sample of samples) {
+        sumOfSquares += sample * sample;
+      }
+      // RMS is tiny for normal speech, so scale it into a usable 0..1 range
+      return Math.min(1, Math.sqrt(sumOfSquares / samples.length) * 4);
+    },
+    dispose: () => {
+      source.disconnect();
+      analyser.disconnect();
+      if (!sharedContext) {
+        audioContext.close();
+      }
+    },
+  };
+};
@@ -0,0 +1,6 @@
+// Exponential backoff with jitter, so many clients recovering at once
+// don't retry in lockstep.
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number): number => {
+  const exponential = Math.min(maxMs, baseMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
@@ -0,0 +1,121 @@
+import { PeerStats, SendTier } from '../types';
+
+// Encoding ladder for our camera. Every peer in the mesh gets its own copy of
+// our video, so each sender walks this ladder independently based on what
+// that particular link can carry. Capture stays at 720p; lower rungs scale
+// down in the encoder so stepping back up needs no new getUserMedia call.
+//
+// This deliberately sends one adaptive layer per peer rather than simulcast
+// or SVC. Layered encodings only pay off when an SFU forwards a different
+// layer to each receiver; in a mesh there is no SFU, every layer would be
+// encoded and uploaded once per peer, and each receiver would still get
+// just one of them.
+export interface EncodingTier {
+  name: SendTier;
+  maxBitrateKbps: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+export const ENCODING_TIERS: EncodingTier[] = [
+  { name: 'high', maxBitrateKbps: 2_500, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { name: 'medium', maxBitrateKbps: 1_000, scaleResolutionDownBy: 2, maxFramerate: 30 },
+  { name: 'low', maxBitrateKbps: 400, scaleResolutionDownBy: 2, maxFramerate: 15 },
+  { name: 'minimal', maxBitrateKbps: 150, scaleResolutionDownBy: 4, maxFramerate: 15 },
+];
+
+// Best rung allowed while the user has asked for low bandwidth mode
+export const LOW_BANDWIDTH_TIER_INDEX = ENCODING_TIERS.findIndex(tier => tier.name === 'low');
+
+// Hysteresis: drop quickly when the link struggles, climb back slowly so a
+// brief good patch doesn't bounce us straight back into congestion.
+const DEGRADED_SAMPLES_TO_STEP_DOWN = 2;
+const HEALTHY_SAMPLES_TO_STEP_UP = 5;
+
+const CONGESTED_LOSS_PERCENT = 5;
+const CONGESTED_RTT_MS = 400;
+const HEALTHY_LOSS_PERCENT = 1;
+const HEALTHY_RTT_MS = 250;
+// Estimated bandwidth must leave this much room above the next rung's bitrate
+const STEP_UP_HEADROOM = 1.2;
+// Sending below this fraction of the current rung's bitrate means the estimate has collapsed
+const STEP_DOWN_BANDWIDTH_RATIO = 0.7;
+
+export interface BitrateControllerState {
+  tierIndex: number;
+  degradedSamples: number;
+  healthySamples: number;
+}
+
+export const initialBitrateControllerState = (): BitrateControllerState => ({
+  tierIndex: 0,
+  degradedSamples: 0,
+  healthySamples: 0,
+});
+
+// Feeds one stats sample into the controller and returns its next state.
+// `minTierIndex` is the best rung currently allowed (low bandwidth mode).
+export const nextBitrateState = (
+  state: BitrateControllerState,
+  stats: PeerStats,
+  minTierIndex: number
+): BitrateControllerState => {
+  const { packetLossPercent, availableBitrateKbps } = stats.outbound;
+  const rttMs = stats.rttMs;
+  const lowestIndex = ENCODING_TIERS.length - 1;
+  const current = ENCODING_TIERS[state.tierIndex];
+
+  // A manual cap overrides whatever the measurements say
+  if (state.tierIndex < minTierIndex) {
+    return { tierIndex: minTierIndex, degradedSamples: 0, healthySamples: 0 };
+  }
+
+  const congested =
+    (packetLossPercent ?? 0) > CONGESTED_LOSS_PERCENT ||
+    (rttMs ?? 0) > CONGESTED_RTT_MS ||
+    (availableBitrateKbps !== null && availableBitrateKbps < current.maxBitrateKbps * STEP_DOWN_BANDWIDTH_RATIO);
+
+  if (congested) {
+    const degradedSamples = state.degradedSamples + 1;
+    if (degradedSamples >= DEGRADED_SAMPLES_TO_STEP_DOWN && state.tierIndex < lowestIndex) {
+      return { tierIndex: state.tierIndex + 1, degradedSamples: 0, healthySamples: 0 };
+    }
+    return { ...state, degradedSamples, healthySamples: 0 };
+  }
+
+  if (state.tierIndex <= minTierIndex) {
+    return { ...state, degradedSamples: 0, healthySamples: 0 };
+  }
+
+  const better = ENCODING_TIERS[state.tierIndex - 1];
+  const healthy =
+    packetLossPercent !== null &&
+    packetLossPercent < HEALTHY_LOSS_PERCENT &&
+    (rttMs ?? 0) < HEALTHY_RTT_MS &&
+    (availableBitrateKbps === null || availableBitrateKbps > better.maxBitrateKbps * STEP_UP_HEADROOM);
+
+  if (!healthy) {
+    return { ...state, degradedSamples: 0, healthySamples: 0 };
+  }
+  const healthySamples = state.healthySamples + 1;
+  if (healthySamples >= HEALTHY_SAMPLES_TO_STEP_UP) {
+    return { tierIndex: state.tierIndex - 1, degradedSamples: 0, healthySamples: 0 };
+  }
+  return { ...state, degradedSamples: 0, healthySamples };
+};
+
+// Pushes a rung onto the sender's single encoding
+export const applyEncodingTier = async (sender: RTCRtpSender, tier: EncodingTier): Promise<void> => {
+  const parameters = sender.getParameters();
+  // Firefox reports no encodings until the first negotiation completes
+  if (!parameters.encodings || parameters.encodings.length === 0) {
+    parameters.encodings = [{}];
+  }
+  parameters.encodings = parameters.encodings.map(encoding => ({
+    ...encoding,
+    maxBitrate: tier.maxBitrateKbps * 1000,
+    scaleResolutionDownBy: tier.scaleResolutionDownBy,
+    maxFramerate: tier.maxFramerate,
+  }));
+  await sender.setParameters(parameters);
+};
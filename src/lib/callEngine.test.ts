@@ -0,0 +1,752 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallPhase, ParticipantRole, User } from '../types';
+import { CallEngine, CallEngineDependencies, Timers } from './callEngine';
+import { CallError } from './callErrors';
+import { CallPersistence, PersistedCall, PersistedRecording } from './callPersistence';
+import { defaultMediaPreferences } from './devices';
+import { LocalRecorder } from './recording';
+import { PROTOCOL_VERSION, SERVER_SENDER } from './signaling';
+import { SpeakerDetector } from './speakerDetection';
+
+// --- Fakes -----------------------------------------------------------------
+
+class FakeTrack {
+  enabled = true;
+  onended: (() => void) | null = null;
+  readonly stop = vi.fn();
+  constructor(readonly kind: 'audio' | 'video') {}
+}
+
+let streamCount = 0;
+
+class FakeStream {
+  readonly id = `stream-${++streamCount}`;
+  constructor(private tracks: FakeTrack[] = []) {}
+  getTracks() {
+    return [...this.tracks];
+  }
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+  addTrack(track: FakeTrack) {
+    this.tracks.push(track);
+  }
+  removeTrack(track: FakeTrack) {
+    this.tracks = this.tracks.filter(candidate => candidate !== track);
+  }
+}
+
+class FakeMediaDevices {
+  // Errors to reject the next getUserMedia calls with, in order
+  readonly failures: Error[] = [];
+  readonly getUserMedia = vi.fn(async (constraints: MediaStreamConstraints) => {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    const tracks: FakeTrack[] = [];
+    if (constraints.audio) tracks.push(new FakeTrack('audio'));
+    if (constraints.video) tracks.push(new FakeTrack('video'));
+    return new FakeStream(tracks);
+  });
+  readonly getDisplayMedia = vi.fn(async () => new FakeStream([new FakeTrack('video')]));
+  readonly enumerateDevices = vi.fn(async () => []);
+  readonly addEventListener = vi.fn();
+  readonly removeEventListener = vi.fn();
+}
+
+interface FakeSender {
+  track: FakeTrack | null;
+  replaceTrack: (track: FakeTrack) => Promise<void>;
+  setStreams: (...streams: FakeStream[]) => void;
+}
+
+interface FakeTransceiver {
+  sender: FakeSender;
+  receiver: { track: FakeTrack };
+  direction: RTCRtpTransceiverDirection;
+}
+
+const createSender = (track: FakeTrack | null): FakeSender => {
+  const sender: FakeSender = {
+    track,
+    replaceTrack: vi.fn(async (next: FakeTrack) => {
+      sender.track = next;
+    }),
+    setStreams: vi.fn(),
+  };
+  return sender;
+};
+
+const description = (type: RTCSdpType) => ({ type, sdp: `${type}-sdp`, toJSON: () => ({ type, sdp: `${type}-sdp` }) });
+
+// Tracks the signaling state the way a browser does for perfect negotiation
+class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  localDescription: ReturnType<typeof description> | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  readonly transceivers: FakeTransceiver[] = [];
+  ontrack: ((event: unknown) => void) | null = null;
+  onnegotiationneeded: (() => Promise<void>) | null = null;
+  onicecandidate: ((event: unknown) => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  readonly restartIce = vi.fn();
+  readonly setConfiguration = vi.fn();
+  readonly addIceCandidate = vi.fn(async () => {});
+  readonly close = vi.fn(() => {
+    this.connectionState = 'closed';
+  });
+
+  createDataChannel() {
+    return { readyState: 'connecting', onmessage: null, send: vi.fn(), close: vi.fn() };
+  }
+
+  addTrack(track: FakeTrack) {
+    const sender = createSender(track);
+    this.transceivers.push({ sender, receiver: { track: new FakeTrack(track.kind) }, direction: 'sendrecv' });
+    return sender;
+  }
+
+  addTransceiver(kind: 'audio' | 'video', { direction }: RTCRtpTransceiverInit) {
+    const transceiver = { sender: createSender(null), receiver: { track: new FakeTrack(kind) }, direction: direction ?? 'sendrecv' };
+    this.transceivers.push(transceiver);
+    return transceiver;
+  }
+
+  removeTrack(sender: FakeSender) {
+    sender.track = null;
+  }
+
+  getSenders() {
+    return this.transceivers.map(transceiver => transceiver.sender);
+  }
+
+  getTransceivers() {
+    return this.transceivers;
+  }
+
+  async getStats() {
+    return new Map();
+  }
+
+  async setLocalDescription(init?: RTCSessionDescriptionInit) {
+    if (init?.type === 'rollback') {
+      this.signalingState = 'stable';
+      this.localDescription = null;
+      return;
+    }
+    const type = this.signalingState === 'have-remote-offer' ? 'answer' : 'offer';
+    this.localDescription = description(type);
+    this.signalingState = type === 'offer' ? 'have-local-offer' : 'stable';
+  }
+
+  async setRemoteDescription(init: RTCSessionDescriptionInit) {
+    if (init.type === 'offer' && this.signalingState !== 'stable') {
+      throw new Error('Cannot accept an offer while one of ours is pending');
+    }
+    this.remoteDescription = init;
+    this.signalingState = init.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  setConnectionState(state: RTCPeerConnectionState) {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+}
+
+class FakeWebSocket {
+  readonly OPEN = 1;
+  readyState = 0;
+  readonly sent: Record<string, unknown>[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  readonly close = vi.fn(() => {
+    this.readyState = 3;
+  });
+
+  constructor(readonly url: string) {}
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  open() {
+    this.readyState = this.OPEN;
+    this.onopen?.();
+  }
+
+  // Frames arrive as the server relays them, stamped with their sender
+  receive(message: { type: string; from: string; to?: string; payload: unknown }) {
+    this.onmessage?.({ data: JSON.stringify({ v: PROTOCOL_VERSION, ...message }) });
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  sentOfType(type: string) {
+    return this.sent.filter(message => message.type === type);
+  }
+}
+
+// Runs timers only when told to, so tests decide when time passes
+class FakeTimers implements Timers {
+  private nextId = 1;
+  private readonly pending = new Map<number, { callback: () => void; repeat: boolean }>();
+
+  setTimeout = (callback: () => void) => this.add(callback, false);
+  setInterval = (callback: () => void) => this.add(callback, true);
+  clearTimeout = (id: number) => {
+    this.pending.delete(id);
+  };
+  clearInterval = (id: number) => {
+    this.pending.delete(id);
+  };
+
+  get timeoutCount() {
+    return Array.from(this.pending.values()).filter(timer => !timer.repeat).length;
+  }
+
+  get pendingCount() {
+    return this.pending.size;
+  }
+
+  // Fires every pending timeout once; intervals keep waiting
+  runTimeouts() {
+    Array.from(this.pending.entries()).forEach(([id, timer]) => {
+      if (timer.repeat) return;
+      this.pending.delete(id);
+      timer.callback();
+    });
+  }
+
+  private add(callback: () => void, repeat: boolean) {
+    const id = this.nextId++;
+    this.pending.set(id, { callback, repeat });
+    return id;
+  }
+}
+
+const createPersistence = () => {
+  let call: PersistedCall | null = null;
+  let recording: PersistedRecording | null = null;
+  const persistence: CallPersistence = {
+    loadActiveCall: () => call,
+    saveActiveCall: next => {
+      call = next;
+    },
+    clearActiveCall: () => {
+      call = null;
+    },
+    loadRecordingProgress: () => recording,
+    saveRecordingProgress: next => {
+      recording = next;
+    },
+    updateRecordingProgress: changes => {
+      if (recording) recording = { ...recording, ...changes };
+    },
+    clearRecordingProgress: () => {
+      recording = null;
+    },
+  };
+  return persistence;
+};
+
+const alice: User = { id: 'alice', username: 'Alice', email: 'alice@example.com' };
+const bob: User = { id: 'bob', username: 'Bob', email: 'bob@example.com' };
+// Sorts before alice, so alice is the impolite side of their negotiation
+const aaron: User = { id: 'aaron', username: 'Aaron', email: 'aaron@example.com' };
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// --- Setup -----------------------------------------------------------------
+
+let sockets: FakeWebSocket[];
+let peerConnections: FakePeerConnection[];
+let mediaDevices: FakeMediaDevices;
+let timers: FakeTimers;
+let persistence: CallPersistence;
+let dependencies: Partial<CallEngineDependencies>;
+let engine: CallEngine;
+
+const socket = () => sockets[sockets.length - 1];
+
+const joinAndOpen = async (sessionId = 'studio-1') => {
+  await engine.join(sessionId);
+  socket().open();
+};
+
+const announce = async (user: User) => {
+  socket().receive({ type: 'participant-joined', from: user.id, payload: { user } });
+  await flush();
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  sockets = [];
+  peerConnections = [];
+  mediaDevices = new FakeMediaDevices();
+  timers = new FakeTimers();
+  persistence = createPersistence();
+  dependencies = {
+    createPeerConnection: () => {
+      const pc = new FakePeerConnection();
+      peerConnections.push(pc);
+      return pc as unknown as RTCPeerConnection;
+    },
+    createWebSocket: url => {
+      const ws = new FakeWebSocket(url);
+      sockets.push(ws);
+      return ws as unknown as WebSocket;
+    },
+    createMediaStream: () => new FakeStream() as unknown as MediaStream,
+    mediaDevices: mediaDevices as unknown as MediaDevices,
+    timers,
+    loadMediaPreferences: () => defaultMediaPreferences,
+    saveMediaPreferences: vi.fn(),
+    persistence,
+    createStudio: vi.fn(),
+    joinStudio: vi.fn(async () => ({ id: 'studio-1', Name: 'Studio', Description: 'A studio', host: bob })),
+    fetchIceServers: vi.fn(async () => ({ ice_servers: [], ttl: 0 })),
+    lockStudio: vi.fn(async () => {}),
+    changeParticipantRole: vi.fn(async () => {}),
+    removeParticipant: vi.fn(async () => {}),
+    getAuthToken: () => 'token-1',
+    createRecorder: () => ({ start: vi.fn(), stop: vi.fn(async () => {}), pause: vi.fn(), resume: vi.fn(), switchStream: vi.fn() }) as unknown as LocalRecorder,
+    enqueueChunk: vi.fn(async () => {}),
+    createSpeakerDetector: vi.fn(() => ({ setStreams: vi.fn(), sample: () => ({ activeSpeakerId: null, levels: {} }), dispose: vi.fn() }) as unknown as SpeakerDetector),
+  };
+  engine = new CallEngine(dependencies);
+  engine.setUser(alice);
+});
+
+afterEach(() => {
+  engine.dispose();
+  vi.restoreAllMocks();
+});
+
+// --- Tests -----------------------------------------------------------------
+
+describe('join', () => {
+  it('acquires media, connects signaling and announces us', async () => {
+    await engine.join('studio-1');
+
+    expect(engine.callState.phase).toBe(CallPhase.SIGNALING);
+    expect(engine.callState.session?.name).toBe('Studio');
+    expect(engine.callState.hostId).toBe('bob');
+    expect(engine.mediaState.capabilities).toEqual({ audio: true, video: true });
+    expect(socket().url).toContain('studioId=studio-1');
+    expect(socket().url).toContain('token=token-1');
+    expect(persistence.loadActiveCall()).toEqual({ sessionId: 'studio-1', joinOptions: {} });
+
+    socket().open();
+
+    expect(engine.callState.phase).toBe(CallPhase.CONNECTED);
+    const [announcement] = socket().sentOfType('participant-joined');
+    expect(announcement).toMatchObject({ payload: { user: alice, reconnect: false } });
+    // The server stamps the sender; clients never claim one
+    expect(announcement).not.toHaveProperty('from');
+  });
+
+  it('joins a viewer invite with camera and microphone off', async () => {
+    await engine.join('studio-1', { role: ParticipantRole.VIEWER });
+
+    expect(engine.localRole).toBe(ParticipantRole.VIEWER);
+    expect(engine.mediaState.audioEnabled).toBe(false);
+    expect(engine.mediaState.videoEnabled).toBe(false);
+  });
+
+  it('joins receive-only and keeps the reason when no device can be opened', async () => {
+    const blocked = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+    mediaDevices.failures.push(blocked, blocked);
+
+    await joinAndOpen();
+
+    expect(engine.callState.phase).toBe(CallPhase.CONNECTED);
+    expect(engine.mediaState.capabilities).toEqual({ audio: false, video: false });
+    expect(engine.mediaState.mediaError).toBe('permission-denied');
+  });
+
+  it('fails with the reason the studio refused us', async () => {
+    vi.mocked(dependencies.joinStudio!).mockRejectedValueOnce(new CallError('studio-full'));
+
+    await expect(engine.join('studio-1')).rejects.toMatchObject({ reason: 'studio-full' });
+
+    expect(engine.callState.phase).toBe(CallPhase.FAILED);
+    expect(engine.callState.error).toBe('studio-full');
+    expect(engine.mediaState.localStream).toBeNull();
+    expect(sockets).toHaveLength(0);
+  });
+});
+
+describe('session loops', () => {
+  it('wait for signaling rather than starting when a studio is created', async () => {
+    vi.mocked(dependencies.createStudio!).mockResolvedValueOnce({ id: 'studio-1', name: 'Studio', description: '' });
+
+    await engine.createSession('Studio', '');
+
+    expect(engine.callState.sessionId).toBe('studio-1');
+    expect(dependencies.createSpeakerDetector).not.toHaveBeenCalled();
+    expect(timers.pendingCount).toBe(0);
+
+    await engine.join('studio-1');
+
+    expect(dependencies.createSpeakerDetector).toHaveBeenCalledTimes(1);
+  });
+
+  it('stop when the call fails', async () => {
+    await joinAndOpen();
+    const detector = vi.mocked(dependencies.createSpeakerDetector!).mock.results[0].value as SpeakerDetector;
+
+    socket().receive({ type: 'error', from: SERVER_SENDER, payload: { code: 'studio-full', message: 'Full', fatal: true } });
+    await flush();
+
+    expect(detector.dispose).toHaveBeenCalled();
+    expect(timers.pendingCount).toBe(0);
+  });
+});
+
+describe('rehydrate', () => {
+  it('rejoins with the persisted options', async () => {
+    persistence.saveActiveCall({ sessionId: 'studio-1', joinOptions: { inviteToken: 'invite-1' } });
+
+    await engine.rehydrate('studio-1');
+
+    expect(dependencies.joinStudio).toHaveBeenCalledWith({ session_id: 'studio-1', invite_token: 'invite-1' });
+    expect(engine.callState.phase).toBe(CallPhase.SIGNALING);
+  });
+
+  it('fails with the reason the studio refused us', async () => {
+    vi.mocked(dependencies.joinStudio!).mockRejectedValueOnce(new CallError('studio-not-found'));
+
+    await engine.rehydrate('studio-1');
+
+    expect(engine.callState.phase).toBe(CallPhase.FAILED);
+    expect(engine.callState.error).toBe('studio-not-found');
+    expect(engine.callState.sessionId).toBe('studio-1');
+    expect(engine.mediaState.localStream).toBeNull();
+  });
+
+  it('leaves a live call alone', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    const ws = socket();
+
+    await engine.rehydrate('studio-2');
+
+    expect(engine.callState.sessionId).toBe('studio-1');
+    expect(engine.callState.phase).toBe(CallPhase.NEGOTIATING);
+    expect(engine.mediaState.localStream).not.toBeNull();
+    expect(ws.close).not.toHaveBeenCalled();
+    expect(peerConnections[0].close).not.toHaveBeenCalled();
+  });
+});
+
+describe('negotiation', () => {
+  it('connects to a newcomer and completes an offer/answer exchange', async () => {
+    await joinAndOpen();
+    await announce(bob);
+
+    expect(peerConnections).toHaveLength(1);
+    const pc = peerConnections[0];
+    expect(socket().sentOfType('participant-joined')[1]).toMatchObject({ to: 'bob' });
+    expect(engine.callState.phase).toBe(CallPhase.NEGOTIATING);
+
+    await pc.onnegotiationneeded?.();
+    expect(socket().sentOfType('offer')).toEqual([{ v: PROTOCOL_VERSION, type: 'offer', to: 'bob', payload: { type: 'offer', sdp: 'offer-sdp' } }]);
+
+    socket().receive({ type: 'answer', from: 'bob', to: 'alice', payload: { type: 'answer', sdp: 'bob-answer' } });
+    await flush();
+    expect(pc.signalingState).toBe('stable');
+    expect(pc.remoteDescription).toEqual({ type: 'answer', sdp: 'bob-answer' });
+
+    pc.setConnectionState('connected');
+    expect(engine.callState.phase).toBe(CallPhase.CONNECTED);
+  });
+
+  it('answers an offer from a peer it has not met yet', async () => {
+    await joinAndOpen();
+
+    socket().receive({ type: 'offer', from: 'bob', to: 'alice', payload: { type: 'offer', sdp: 'bob-offer' } });
+    await flush();
+
+    expect(peerConnections).toHaveLength(1);
+    expect(socket().sentOfType('answer')).toEqual([
+      { v: PROTOCOL_VERSION, type: 'answer', to: 'bob', payload: { type: 'answer', sdp: 'answer-sdp' } },
+    ]);
+  });
+
+  it('rolls back its own offer on glare when it is the polite peer', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    const pc = peerConnections[0];
+    await pc.onnegotiationneeded?.();
+    expect(pc.signalingState).toBe('have-local-offer');
+
+    socket().receive({ type: 'offer', from: 'bob', to: 'alice', payload: { type: 'offer', sdp: 'bob-offer' } });
+    await flush();
+
+    expect(pc.remoteDescription).toEqual({ type: 'offer', sdp: 'bob-offer' });
+    expect(socket().sentOfType('answer')).toHaveLength(1);
+    expect(pc.signalingState).toBe('stable');
+  });
+
+  it('ignores a colliding offer when it is the impolite peer', async () => {
+    await joinAndOpen();
+    await announce(aaron);
+    const pc = peerConnections[0];
+    await pc.onnegotiationneeded?.();
+
+    socket().receive({ type: 'offer', from: 'aaron', to: 'alice', payload: { type: 'offer', sdp: 'aaron-offer' } });
+    await flush();
+
+    expect(pc.remoteDescription).toBeNull();
+    expect(socket().sentOfType('answer')).toHaveLength(0);
+    expect(pc.signalingState).toBe('have-local-offer');
+  });
+});
+
+describe('reconnect', () => {
+  it('reopens signaling after a drop and re-announces us', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    peerConnections[0].setConnectionState('connected');
+
+    socket().drop();
+    expect(engine.callState.phase).toBe(CallPhase.RECONNECTING);
+    expect(timers.timeoutCount).toBe(1);
+
+    timers.runTimeouts();
+    expect(sockets).toHaveLength(2);
+    socket().open();
+
+    expect(engine.callState.phase).toBe(CallPhase.CONNECTED);
+    expect(socket().sentOfType('participant-joined')[0]).toMatchObject({ payload: { reconnect: true } });
+    // The media connection survived the signaling outage
+    expect(peerConnections[0].close).not.toHaveBeenCalled();
+  });
+
+  it('gives up after repeated drops and tears the call down', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    const localTracks = engine.mediaState.localStream!.getTracks();
+
+    while (engine.callState.phase !== CallPhase.FAILED) {
+      socket().drop();
+      timers.runTimeouts();
+    }
+
+    expect(engine.callState.error).toBe('signaling-failed');
+    // Kept so the failure screen can retry the same studio
+    expect(engine.callState.sessionId).toBe('studio-1');
+    expect(persistence.loadActiveCall()?.sessionId).toBe('studio-1');
+    expect(peerConnections[0].close).toHaveBeenCalled();
+    localTracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+    expect(engine.mediaState.localStream).toBeNull();
+    expect(timers.timeoutCount).toBe(0);
+  });
+
+  it('fails only on fatal errors the server itself sends', async () => {
+    await joinAndOpen();
+
+    socket().receive({ type: 'error', from: 'bob', payload: { code: 'studio-full', message: 'Forged', fatal: true } });
+    await flush();
+    expect(engine.callState.phase).toBe(CallPhase.CONNECTED);
+
+    socket().receive({ type: 'error', from: SERVER_SENDER, payload: { code: 'studio-full', message: 'Full', fatal: true } });
+    await flush();
+    expect(engine.callState.phase).toBe(CallPhase.FAILED);
+    expect(engine.callState.error).toBe('studio-full');
+    expect(socket().close).toHaveBeenCalled();
+  });
+});
+
+describe('setMedia', () => {
+  it('toggles the local tracks and tells the other participants', async () => {
+    await joinAndOpen();
+    const [audioTrack] = engine.mediaState.localStream!.getAudioTracks();
+    const [videoTrack] = engine.mediaState.localStream!.getVideoTracks();
+
+    await engine.setMedia({ audio: false });
+
+    expect(audioTrack.enabled).toBe(false);
+    expect(videoTrack.enabled).toBe(true);
+    expect(engine.mediaState.audioEnabled).toBe(false);
+    expect(socket().sentOfType('mute-state').pop()).toMatchObject({ payload: { audioEnabled: false, videoEnabled: true } });
+
+    await engine.setMedia({ audio: true, video: false });
+
+    expect(audioTrack.enabled).toBe(true);
+    expect(videoTrack.enabled).toBe(false);
+    expect(socket().sentOfType('mute-state').pop()).toMatchObject({ payload: { audioEnabled: true, videoEnabled: false } });
+  });
+
+  it('shares the screen with every peer and stops again', async () => {
+    await joinAndOpen();
+    await announce(bob);
+
+    await engine.setMedia({ screen: true });
+
+    expect(engine.mediaState.isSharingScreen).toBe(true);
+    const screenTrack = engine.mediaState.screenStream!.getVideoTracks()[0];
+    expect(peerConnections[0].getSenders().map(sender => sender.track)).toContain(screenTrack);
+    expect(socket().sentOfType('screen-share')).toHaveLength(1);
+
+    await engine.setMedia({ screen: false });
+
+    expect(engine.mediaState.isSharingScreen).toBe(false);
+    expect(screenTrack.stop).toHaveBeenCalled();
+  });
+
+  it('keeps a viewer off camera, microphone and screen', async () => {
+    await engine.join('studio-1', { role: ParticipantRole.VIEWER });
+    socket().open();
+
+    await engine.setMedia({ audio: true, video: true, screen: true });
+
+    engine.mediaState.localStream!.getTracks().forEach(track => expect(track.enabled).toBe(false));
+    expect(engine.mediaState.audioEnabled).toBe(false);
+    expect(engine.mediaState.videoEnabled).toBe(false);
+    expect(mediaDevices.getDisplayMedia).not.toHaveBeenCalled();
+  });
+});
+
+describe('chat', () => {
+  it('names senders from the participant list, not from what they send', async () => {
+    await joinAndOpen();
+    await announce(bob);
+
+    socket().receive({
+      type: 'chat',
+      from: 'bob',
+      to: 'alice',
+      payload: { id: 'message-1', senderName: 'The host', text: 'Hello', sentAt: 1 },
+    });
+    await flush();
+    engine.sendChatMessage('Hi Bob');
+
+    expect(engine.chatMessages).toMatchObject([
+      { id: 'message-1', from: 'bob', senderName: 'Bob', text: 'Hello' },
+      { from: 'alice', senderName: 'Alice', text: 'Hi Bob' },
+    ]);
+    expect(socket().sentOfType('chat')[0].payload).not.toHaveProperty('senderName');
+  });
+});
+
+describe('moderation', () => {
+  it('removes a participant through the API and keeps them out', async () => {
+    vi.mocked(dependencies.joinStudio!).mockResolvedValueOnce({ id: 'studio-1', Name: 'Studio', Description: '', host: alice });
+    await joinAndOpen();
+    await announce(aaron);
+
+    await engine.moderateParticipant('aaron', 'remove');
+
+    expect(dependencies.removeParticipant).toHaveBeenCalledWith({ session_id: 'studio-1', user_id: 'aaron' });
+    expect(socket().sentOfType('moderation')).toEqual([
+      { v: PROTOCOL_VERSION, type: 'moderation', payload: { action: 'remove', target: 'aaron' } },
+    ]);
+    expect(peerConnections[0].close).toHaveBeenCalled();
+
+    await announce(aaron);
+    socket().receive({ type: 'offer', from: 'aaron', to: 'alice', payload: { type: 'offer', sdp: 'aaron-offer' } });
+    await flush();
+
+    expect(peerConnections).toHaveLength(1);
+    expect(socket().sentOfType('moderation')[1]).toMatchObject({ to: 'aaron', payload: { action: 'remove', target: 'aaron' } });
+  });
+
+  it('leaves the participant in when the API refuses the removal', async () => {
+    vi.mocked(dependencies.joinStudio!).mockResolvedValueOnce({ id: 'studio-1', Name: 'Studio', Description: '', host: alice });
+    vi.mocked(dependencies.removeParticipant!).mockRejectedValueOnce(new Error('Forbidden'));
+    await joinAndOpen();
+    await announce(aaron);
+
+    await engine.moderateParticipant('aaron', 'remove');
+
+    expect(socket().sentOfType('moderation')).toHaveLength(0);
+    expect(peerConnections[0].close).not.toHaveBeenCalled();
+  });
+
+  it('ignores a co-host acting on the host', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    await announce(aaron);
+    socket().receive({ type: 'role-change', from: SERVER_SENDER, payload: { target: 'aaron', role: ParticipantRole.CO_HOST } });
+    await flush();
+
+    socket().receive({ type: 'moderation', from: 'aaron', payload: { action: 'remove', target: 'bob' } });
+    await flush();
+
+    expect(engine.callState.participants.map(p => p.id)).toContain('bob');
+    expect(peerConnections[0].close).not.toHaveBeenCalled();
+
+    // The same co-host may still remove a guest
+    socket().receive({ type: 'moderation', from: 'aaron', payload: { action: 'remove', target: 'carol' } });
+    await flush();
+    socket().receive({ type: 'participant-joined', from: 'carol', payload: { user: { id: 'carol', username: 'Carol', email: 'carol@example.com' } } });
+    await flush();
+    expect(engine.callState.participants.map(p => p.id)).not.toContain('carol');
+  });
+});
+
+describe('leave', () => {
+  it('says goodbye and releases everything', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    const ws = socket();
+    const localTracks = engine.mediaState.localStream!.getTracks();
+
+    engine.leave();
+
+    expect(ws.sentOfType('participant-left')).toHaveLength(1);
+    expect(ws.close).toHaveBeenCalled();
+    expect(peerConnections[0].close).toHaveBeenCalled();
+    localTracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+    expect(engine.callState.phase).toBe(CallPhase.IDLE);
+    expect(engine.callState.sessionId).toBeNull();
+    expect(persistence.loadActiveCall()).toBeNull();
+  });
+
+  it('lets a later join start afresh', async () => {
+    await joinAndOpen();
+    engine.leave();
+
+    await joinAndOpen('studio-2');
+
+    expect(engine.callState.sessionId).toBe('studio-2');
+    expect(engine.callState.phase).toBe(CallPhase.CONNECTED);
+  });
+});
+
+describe('dispose', () => {
+  it('stops media, signaling and timers and goes quiet', async () => {
+    await joinAndOpen();
+    await announce(bob);
+    const ws = socket();
+    const localTracks = engine.mediaState.localStream!.getTracks();
+    const onCallState = vi.fn();
+    engine.on('callState', onCallState);
+
+    engine.dispose();
+
+    expect(ws.close).toHaveBeenCalled();
+    expect(peerConnections[0].close).toHaveBeenCalled();
+    localTracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+    expect(timers.pendingCount).toBe(0);
+
+    // Closing does not count as a drop, and listeners are gone
+    ws.drop();
+    engine.leave();
+    expect(sockets).toHaveLength(1);
+    expect(onCallState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,1788 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CallState,
+  CallErrorReason,
+  CallPhase,
+  ChatMessage,
+  JoinOptions,
+  MediaPreferences,
+  MediaState,
+  ModerationAction,
+  Participant,
+  ParticipantRole,
+  PeerStats,
+  RecordingState,
+  RecordingStatus,
+  User,
+} from '../types';
+import { environment } from '../environment';
+import { fetchIceServers } from '../api/ice';
+import { getAuthToken } from '../api/client';
+import { changeParticipantRole, createStudio, joinStudio, lockStudio, removeParticipant } from '../api/studio';
+import { TypedEventEmitter } from './eventEmitter';
+import { getRecordingElapsed, LocalRecorder, LocalRecorderOptions, RecordedChunk } from './recording';
+import { ChunkUploadTarget } from './recordingUpload';
+import { uploadQueue } from './uploadQueue';
+import { backoffDelay } from './backoff';
+import { ChatPayload, openChatChannel, parseChatFrame } from './chat';
+import { SPEAKER_SAMPLE_INTERVAL_MS, SpeakerDetector } from './speakerDetection';
+import { computePeerStats, STATS_POLL_INTERVAL_MS, StatsSnapshot } from './stats';
+import {
+  applyEncodingTier,
+  BitrateControllerState,
+  ENCODING_TIERS,
+  initialBitrateControllerState,
+  LOW_BANDWIDTH_TIER_INDEX,
+  nextBitrateState,
+} from './bitrate';
+import {
+  acquireLocalMedia,
+  audioConstraints,
+  buildMediaConstraints,
+  listMediaDevices,
+  loadMediaPreferences,
+  saveMediaPreferences,
+  videoConstraints,
+} from './devices';
+import { canManageStudio, canModerate, canSendMedia } from './roles';
+import { canTransition, isInCall, isJoined, settledPhase } from './callLifecycle';
+import { callErrorFromSignalingCode, toCallError } from './callErrors';
+import { CallPersistence, PersistedRecording, sessionCallPersistence } from './callPersistence';
+import {
+  ErrorMessage,
+  ModerationMessage,
+  OutgoingSignalingMessage,
+  ParticipantJoinedMessage,
+  parseSignalingMessage,
+  SERVER_SENDER,
+  serializeSignalingMessage,
+  SignalingMessage,
+} from './signaling';
+
+// The browser's timer functions, so tests can drive time themselves
+export interface Timers {
+  setTimeout: (callback: () => void, ms: number) => number;
+  clearTimeout: (id: number) => void;
+  setInterval: (callback: () => void, ms: number) => number;
+  clearInterval: (id: number) => void;
+}
+
+// Everything a call needs from the browser and the backend. Tests and other
+// hosts can swap any of these for fakes.
+export interface CallEngineDependencies {
+  createPeerConnection: (configuration: RTCConfiguration) => RTCPeerConnection;
+  createWebSocket: (url: string) => WebSocket;
+  createMediaStream: () => MediaStream;
+  mediaDevices: MediaDevices;
+  timers: Timers;
+  loadMediaPreferences: typeof loadMediaPreferences;
+  saveMediaPreferences: typeof saveMediaPreferences;
+  persistence: CallPersistence;
+  createStudio: typeof createStudio;
+  joinStudio: typeof joinStudio;
+  fetchIceServers: typeof fetchIceServers;
+  lockStudio: typeof lockStudio;
+  changeParticipantRole: typeof changeParticipantRole;
+  removeParticipant: typeof removeParticipant;
+  getAuthToken: () => string | null;
+  createRecorder: (stream: MediaStream, options: LocalRecorderOptions) => LocalRecorder;
+  enqueueChunk: (chunk: RecordedChunk, target: ChunkUploadTarget) => Promise<void>;
+  createSpeakerDetector: () => SpeakerDetector;
+}
+
+const defaultDependencies = (): CallEngineDependencies => ({
+  createPeerConnection: configuration => new RTCPeerConnection(configuration),
+  createWebSocket: url => new WebSocket(url),
+  createMediaStream: () => new MediaStream(),
+  mediaDevices: navigator.mediaDevices,
+  timers: {
+    setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+    clearTimeout: id => window.clearTimeout(id),
+    setInterval: (callback, ms) => window.setInterval(callback, ms),
+    clearInterval: id => window.clearInterval(id),
+  },
+  loadMediaPreferences,
+  saveMediaPreferences,
+  persistence: sessionCallPersistence,
+  createStudio,
+  joinStudio,
+  fetchIceServers,
+  lockStudio,
+  changeParticipantRole,
+  removeParticipant,
+  getAuthToken,
+  createRecorder: (stream, options) => new LocalRecorder(stream, options),
+  enqueueChunk: (chunk, target) => uploadQueue.enqueue(chunk, target),
+  createSpeakerDetector: () => new SpeakerDetector(),
+});
+
+// Each event carries the full new value, so a listener can store it as is
+export interface CallEngineEvents {
+  callState: CallState;
+  mediaState: MediaState;
+  mediaPreferences: MediaPreferences;
+  recordingState: RecordingState;
+  // Connection health per remote participant, refreshed every few seconds
+  peerStats: Record<string, PeerStats>;
+  lowBandwidthMode: boolean;
+  // Chat history for the current session, oldest first
+  chatMessages: ChatMessage[];
+  // Smoothed speaking level (0..1) per participant id, including our own user id
+  audioLevels: Record<string, number>;
+  activeSpeakerId: string | null;
+  // Set when the host or a co-host acted on us, e.g. "The host muted you"
+  moderationNotice: string | null;
+}
+
+// Media changes requested through setMedia; omitted kinds are left alone
+export interface MediaChanges {
+  audio?: boolean;
+  video?: boolean;
+  screen?: boolean;
+}
+
+export const initialCallState: CallState = {
+  sessionId: null,
+  phase: CallPhase.IDLE,
+  error: null,
+  participants: [],
+  hostId: null,
+  isLocked: false,
+};
+
+export const initialMediaState: MediaState = {
+  localStream: null,
+  capabilities: { audio: false, video: false },
+  mediaError: null,
+  remoteStreams: {},
+  audioEnabled: true,
+  videoEnabled: true,
+  isSharingScreen: false,
+  screenStream: null,
+  remoteScreenStreams: {},
+};
+
+export const initialRecordingState: RecordingState = {
+  status: RecordingStatus.IDLE,
+  recordingId: null,
+  accumulatedMs: 0,
+  resumedAt: null,
+};
+
+// Peers announce themselves this often; one silent for a few beats is considered gone
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const HEARTBEAT_TIMEOUT_MS = 45_000;
+
+// Signaling reconnection backoff; after the last attempt the call is given up
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// How long ICE may sit in `disconnected` before we restart it ourselves
+const ICE_DISCONNECTED_GRACE_MS = 3_000;
+
+// Share of a TURN credential's lifetime after which fresh ones are fetched
+const ICE_REFRESH_AT = 0.8;
+
+type InputDeviceKind = Exclude<MediaDeviceKind, 'audiooutput'>;
+
+// Per-peer state for the perfect negotiation pattern
+interface NegotiationState {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+}
+
+type BitrateController = BitrateControllerState & { appliedTierIndex: number | null };
+
+type StateUpdate<T> = T | ((prev: T) => T);
+
+const resolveUpdate = <T>(update: StateUpdate<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+// Both ends must agree on who yields in a collision, so derive it from the ids
+const isPolitePeer = (localId: string, remoteId: string) => localId < remoteId;
+
+const toParticipant = (user: User, hostId: string | null): Participant => ({
+  ...user,
+  audioEnabled: true,
+  videoEnabled: true,
+  recordingStatus: RecordingStatus.IDLE,
+  role: user.id === hostId ? ParticipantRole.HOST : ParticipantRole.GUEST,
+});
+
+const fallbackRtcConfiguration = (): RTCConfiguration => ({
+  iceServers: environment.fallbackIceServers,
+  iceTransportPolicy: environment.iceTransportPolicy,
+});
+
+// Owns one participant's side of a studio call: signaling, the full mesh of
+// peer connections, local media, recording, chat and moderation. It knows
+// nothing about React; hosts drive it through its methods and follow its
+// state through the events it emits.
+export class CallEngine extends TypedEventEmitter<CallEngineEvents> {
+  private readonly deps: CallEngineDependencies;
+  private user: User | null = null;
+  private disposed = false;
+
+  private _callState: CallState = initialCallState;
+  private _mediaState: MediaState = initialMediaState;
+  private _mediaPreferences: MediaPreferences;
+  private _recordingState: RecordingState = initialRecordingState;
+  private _peerStats: Record<string, PeerStats> = {};
+  private _lowBandwidthMode = false;
+  private _chatMessages: ChatMessage[] = [];
+  private _audioLevels: Record<string, number> = {};
+  private _activeSpeakerId: string | null = null;
+  private _moderationNotice: string | null = null;
+
+  private ws: WebSocket | null = null;
+  private localStream: MediaStream | null = null;
+  // Full mesh: one peer connection and one remote stream per remote participant
+  private readonly peerConnections = new Map<string, RTCPeerConnection>();
+  private readonly remoteStreams = new Map<string, MediaStream>();
+  // Screen sharing travels as extra tracks on the same peer connections
+  private screenStream: MediaStream | null = null;
+  private readonly screenSenders = new Map<string, RTCRtpSender[]>();
+  // Stream id each peer announced as its screen share
+  private readonly remoteScreenStreamIds = new Map<string, string>();
+  private createdSession: CallState['session'] | null = null;
+  // Guards against rehydrating twice, e.g. from StrictMode's double effects
+  private rehydratingSessionId: string | null = null;
+  private recorder: LocalRecorder | null = null;
+  private recordingLimitTimer: number | null = null;
+  private readonly lastSeen = new Map<string, number>();
+  private heartbeatInterval: number | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
+  // Perfect negotiation bookkeeping for each peer connection
+  private readonly negotiations = new Map<string, NegotiationState>();
+  private readonly iceRestartTimers = new Map<string, number>();
+  // ICE servers for this call; TURN credentials are short-lived and refreshed while it lasts
+  private rtcConfiguration: RTCConfiguration = fallbackRtcConfiguration();
+  private iceRefreshTimer: number | null = null;
+  private readonly chatChannels = new Map<string, RTCDataChannel>();
+  // A message can arrive over both the data channel and the signaling relay
+  private readonly seenChatIds = new Set<string>();
+  // Co-hosts of this call, remembered while they are away so a reload does not cost them the role
+  private readonly coHostIds = new Set<string>();
+  // Participants a moderator removed from this call; they are not let back in
+  private readonly removedIds = new Set<string>();
+  private speakerDetector: SpeakerDetector | null = null;
+  // Stats polling and speaker detection run for as long as we are in a call
+  private stopSessionLoops: (() => void) | null = null;
+  private watchingDevices = false;
+
+  constructor(dependencies: Partial<CallEngineDependencies> = {}) {
+    super();
+    this.deps = { ...defaultDependencies(), ...dependencies };
+    this._mediaPreferences = this.deps.loadMediaPreferences();
+  }
+
+  get callState(): CallState {
+    return this._callState;
+  }
+
+  get mediaState(): MediaState {
+    return this._mediaState;
+  }
+
+  get mediaPreferences(): MediaPreferences {
+    return this._mediaPreferences;
+  }
+
+  get recordingState(): RecordingState {
+    return this._recordingState;
+  }
+
+  get peerStats(): Record<string, PeerStats> {
+    return this._peerStats;
+  }
+
+  get lowBandwidthMode(): boolean {
+    return this._lowBandwidthMode;
+  }
+
+  get chatMessages(): ChatMessage[] {
+    return this._chatMessages;
+  }
+
+  get audioLevels(): Record<string, number> {
+    return this._audioLevels;
+  }
+
+  get activeSpeakerId(): string | null {
+    return this._activeSpeakerId;
+  }
+
+  get moderationNotice(): string | null {
+    return this._moderationNotice;
+  }
+
+  get localRole(): ParticipantRole {
+    return this.roleOf(this.user?.id ?? '') ?? ParticipantRole.GUEST;
+  }
+
+  // The logged-in user we act as, e.g. in our own announcement and chat
+  setUser(user: User | null): void {
+    this.user = user;
+    this.speakerDetector?.setStreams(this.speakerStreams());
+  }
+
+  // Tears everything down for good; the engine cannot be used afterwards
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.recorder?.stop();
+    this.recorder = null;
+    this.stopHeartbeat();
+    this.cancelReconnect();
+    this.cancelIceRefresh();
+    this.clearRecordingLimit();
+    this.closeSocket();
+    this.cleanupMediaDevices();
+    this.stopSessionLoops?.();
+    this.stopSessionLoops = null;
+    this.removeAllListeners();
+  }
+
+  // --- State -------------------------------------------------------------
+
+  // Phase changes are checked against the transition table; an illegal one is
+  // logged and the whole update dropped
+  private setCallState(update: StateUpdate<CallState>): boolean {
+    const previous = this._callState;
+    const next = resolveUpdate(update, previous);
+    if (!canTransition(previous.phase, next.phase)) {
+      console.error(`Illegal call transition from ${previous.phase} to ${next.phase}, ignoring it`);
+      return false;
+    }
+    this._callState = next;
+    if (isJoined(next.phase) !== isJoined(previous.phase)) {
+      this.restartSessionLoops();
+    }
+    this.emit('callState', next);
+    return true;
+  }
+
+  private transition(phase: CallPhase, changes: Partial<CallState> = {}): boolean {
+    if (phase === this._callState.phase && Object.keys(changes).length === 0) return true;
+    return this.setCallState(prev => ({ ...prev, ...changes, phase }));
+  }
+
+  // Tears the call down like leaving does, but keeps the studio and join
+  // options so the failure screen can retry. An unfinished recording is stopped
+  // with its progress kept, so the retry carries on with the same recording.
+  private fail(reason: CallErrorReason) {
+    if (!this.transition(CallPhase.FAILED, { error: reason })) return;
+    this.suspendRecording();
+    this.teardownCall();
+  }
+
+  // Moves a live call to wherever it should rest given the recorder and the
+  // peer connections. Before signaling is up (or while it is down) only the
+  // socket opening may do this.
+  private settlePhase(signalingOpened = false) {
+    const { phase } = this._callState;
+    const waitingForSignaling = phase === CallPhase.SIGNALING || phase === CallPhase.RECONNECTING;
+    if (!isInCall(phase) && !(signalingOpened && waitingForSignaling)) return;
+    const peersPending = Array.from(this.peerConnections.values()).some(pc => pc.connectionState !== 'connected');
+    this.transition(settledPhase(!!this.recorder, peersPending), signalingOpened ? { error: null } : {});
+  }
+
+  private setMediaState(update: StateUpdate<MediaState>) {
+    const previous = this._mediaState;
+    this._mediaState = resolveUpdate(update, previous);
+    if (this._mediaState.localStream !== previous.localStream || this._mediaState.remoteStreams !== previous.remoteStreams) {
+      this.speakerDetector?.setStreams(this.speakerStreams());
+    }
+    if (this._mediaState.localStream !== previous.localStream) {
+      this.watchDevices(!!this._mediaState.localStream);
+    }
+    this.emit('mediaState', this._mediaState);
+  }
+
+  private setRecordingState(update: StateUpdate<RecordingState>) {
+    this._recordingState = resolveUpdate(update, this._recordingState);
+    this.scheduleRecordingLimit();
+    this.emit('recordingState', this._recordingState);
+  }
+
+  private setPeerStats(peerStats: Record<string, PeerStats>) {
+    this._peerStats = peerStats;
+    this.emit('peerStats', peerStats);
+  }
+
+  private setChatMessages(update: StateUpdate<ChatMessage[]>) {
+    this._chatMessages = resolveUpdate(update, this._chatMessages);
+    this.emit('chatMessages', this._chatMessages);
+  }
+
+  private setModerationNotice(notice: string | null) {
+    this._moderationNotice = notice;
+    this.emit('moderationNotice', notice);
+  }
+
+  dismissModerationNotice(): void {
+    this.setModerationNotice(null);
+  }
+
+  setMediaPreferences(preferences: MediaPreferences): void {
+    this._mediaPreferences = preferences;
+    this.deps.saveMediaPreferences(preferences);
+    this.emit('mediaPreferences', preferences);
+  }
+
+  // Caps outgoing video at a low rung for every peer, whatever the measurements say
+  setLowBandwidthMode(enabled: boolean): void {
+    this._lowBandwidthMode = enabled;
+    this.emit('lowBandwidthMode', enabled);
+  }
+
+  // --- Session loops -----------------------------------------------------
+
+  // Not before signaling is reached: a created studio or a lobby opening media is no call yet
+  private restartSessionLoops() {
+    this.stopSessionLoops?.();
+    this.stopSessionLoops = null;
+    if (!isJoined(this._callState.phase) || this.disposed) return;
+    const stopStats = this.startStatsPolling();
+    const stopSpeakers = this.startSpeakerDetection();
+    this.stopSessionLoops = () => {
+      stopStats();
+      stopSpeakers();
+    };
+  }
+
+  // Poll every peer connection while in a studio and adapt what we send to
+  // each of them, one layer per peer (see bitrate.ts). Peers that have gone
+  // away simply drop out of the next snapshot.
+  private startStatsPolling(): () => void {
+    const snapshots = new Map<string, StatsSnapshot>();
+    const controllers = new Map<string, BitrateController>();
+    let cancelled = false;
+
+    const adaptSendingBitrate = async (peerId: string, pc: RTCPeerConnection, stats: PeerStats) => {
+      const previous = controllers.get(peerId) ?? { ...initialBitrateControllerState(), appliedTierIndex: null };
+      // Leaving low bandwidth mode lets each peer climb back from the cap on its own
+      const minTierIndex = this._lowBandwidthMode ? LOW_BANDWIDTH_TIER_INDEX : 0;
+      const controller = { ...nextBitrateState(previous, stats, minTierIndex), appliedTierIndex: previous.appliedTierIndex };
+      controllers.set(peerId, controller);
+
+      const screenSenders = this.screenSenders.get(peerId) ?? [];
+      const sender = pc.getSenders().find(
+        candidate => candidate.track?.kind === 'video' && !screenSenders.includes(candidate)
+      );
+      if (!sender || controller.tierIndex === controller.appliedTierIndex) return;
+      const tier = ENCODING_TIERS[controller.tierIndex];
+      await applyEncodingTier(sender, tier);
+      controller.appliedTierIndex = controller.tierIndex;
+      console.log(`Sending ${tier.name} video to peer ${peerId}`);
+    };
+
+    const poll = async () => {
+      const entries = await Promise.all(
+        Array.from(this.peerConnections.entries()).map(async ([peerId, pc]) => {
+          try {
+            const { stats, snapshot } = computePeerStats(await pc.getStats(), snapshots.get(peerId) ?? null);
+            snapshots.set(peerId, snapshot);
+            await adaptSendingBitrate(peerId, pc, stats).catch(error => {
+              console.error(`Failed to adjust sending bitrate for peer ${peerId}:`, error);
+            });
+            const tierIndex = controllers.get(peerId)?.appliedTierIndex;
+            return [peerId, { ...stats, sendTier: tierIndex == null ? undefined : ENCODING_TIERS[tierIndex].name }] as const;
+          } catch (error) {
+            console.error(`Failed to read stats for peer ${peerId}:`, error);
+            return null;
+          }
+        })
+      );
+      if (cancelled) return;
+      const next: Record<string, PeerStats> = {};
+      for (const entry of entries) {
+        if (entry) next[entry[0]] = entry[1];
+      }
+      for (const peerId of snapshots.keys()) {
+        if (!(peerId in next)) {
+          snapshots.delete(peerId);
+          controllers.delete(peerId);
+        }
+      }
+      this.setPeerStats(next);
+    };
+
+    const interval = this.deps.timers.setInterval(poll, STATS_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      this.deps.timers.clearInterval(interval);
+      this.setPeerStats({});
+    };
+  }
+
+  private startSpeakerDetection(): () => void {
+    const detector = this.deps.createSpeakerDetector();
+    this.speakerDetector = detector;
+    detector.setStreams(this.speakerStreams());
+
+    const interval = this.deps.timers.setInterval(() => {
+      const sample = detector.sample();
+      if (sample.activeSpeakerId !== this._activeSpeakerId) {
+        this._activeSpeakerId = sample.activeSpeakerId;
+        this.emit('activeSpeakerId', sample.activeSpeakerId);
+      }
+      // Rounded so that inaudible changes don't re-render every tile
+      const next: Record<string, number> = {};
+      let changed = Object.keys(this._audioLevels).length !== Object.keys(sample.levels).length;
+      for (const [id, level] of Object.entries(sample.levels)) {
+        next[id] = Math.round(level * 100) / 100;
+        changed ||= next[id] !== this._audioLevels[id];
+      }
+      if (changed) {
+        this._audioLevels = next;
+        this.emit('audioLevels', next);
+      }
+    }, SPEAKER_SAMPLE_INTERVAL_MS);
+
+    return () => {
+      this.deps.timers.clearInterval(interval);
+      detector.dispose();
+      this.speakerDetector = null;
+      this._audioLevels = {};
+      this.emit('audioLevels', this._audioLevels);
+      this._activeSpeakerId = null;
+      this.emit('activeSpeakerId', null);
+    };
+  }
+
+  private speakerStreams(): Record<string, MediaStream | null> {
+    return {
+      ...Object.fromEntries(this.remoteStreams),
+      ...(this.user ? { [this.user.id]: this.localStream } : {}),
+    };
+  }
+
+  // --- Signaling ---------------------------------------------------------
+
+  private connectWebSocket(sessionId: string) {
+    // The server learns who we are from the token and stamps that on everything we send
+    const token = encodeURIComponent(this.deps.getAuthToken() ?? '');
+    const ws = this.deps.createWebSocket(`${environment.wsBaseUrl}/api/v1/ws?studioId=${sessionId}&token=${token}`);
+
+    ws.onopen = () => {
+      const isReconnect = this.reconnectAttempts > 0;
+      this.reconnectAttempts = 0;
+      this.startHeartbeat();
+      // Announce ourselves; everyone already in the studio connects to us
+      const user = this.user;
+      if (user) {
+        const ownRole = this.roleOf(user.id);
+        this.send({
+          type: 'participant-joined',
+          payload: { user, reconnect: isReconnect, ...(ownRole === ParticipantRole.VIEWER ? { role: ownRole } : {}) },
+        });
+        this.sendMediaState();
+        if (this.recorder) {
+          this.sendRecordingState(this._recordingState.status);
+        }
+      }
+      if (isReconnect) {
+        this.handleSignalingReconnected();
+      }
+      this.settlePhase(true);
+    };
+
+    ws.onmessage = (event) => {
+      const message = parseSignalingMessage(event.data);
+      if (!message || message.from === this.user?.id) return;
+      // Messages addressed to another participant are not for us
+      if (message.to && message.to !== this.user?.id) return;
+      this.handleSignalingMessage(message).catch(error => {
+        console.error(`Error handling ${message.type} from ${message.from}:`, error);
+      });
+    };
+
+    // A close always follows an error, so recovery is handled in onclose
+    ws.onerror = (error) => {
+      console.error('WebSocket error:', error);
+    };
+
+    // Only unexpected closes reach here; leaving detaches this handler first
+    ws.onclose = () => {
+      this.stopHeartbeat();
+      if (this._callState.phase === CallPhase.FAILED) return;
+      this.scheduleReconnect(sessionId);
+    };
+
+    this.ws = ws;
+  }
+
+  private async handleSignalingMessage(message: SignalingMessage) {
+    switch (message.type) {
+      case 'participant-joined':
+        console.log('participant joined:', message.from);
+        this.handleParticipantJoined(message);
+        break;
+      case 'participant-left':
+        console.log('participant left:', message.from);
+        this.removePeer(message.from);
+        break;
+      case 'offer':
+      case 'answer':
+        console.log(`${message.type} received from`, message.from);
+        await this.handleDescription(message.payload, message.from);
+        break;
+      case 'ice-candidate':
+        await this.handleIceCandidate(message.payload, message.from);
+        break;
+      case 'mute-state':
+        this.updateParticipant(message.from, message.payload);
+        break;
+      case 'recording-state':
+        this.updateParticipant(message.from, { recordingStatus: message.payload.status });
+        break;
+      case 'heartbeat':
+        if (message.from !== SERVER_SENDER) {
+          this.lastSeen.set(message.from, Date.now());
+        }
+        break;
+      case 'error':
+        if (message.from !== SERVER_SENDER) break;
+        this.handleSignalingError(message.payload);
+        break;
+      case 'chat':
+        this.receiveChatMessage(message.payload, message.from);
+        break;
+      case 'screen-share':
+        this.handleRemoteScreenShare(message.from, message.payload.streamId);
+        break;
+      case 'moderation':
+        this.handleModeration(message);
+        break;
+      // Only the server announces these, after the backend has checked the change
+      case 'role-change':
+        if (message.from !== SERVER_SENDER) break;
+        this.applyRoleChange(message.payload.target, message.payload.role);
+        break;
+      case 'studio-lock':
+        if (message.from !== SERVER_SENDER) break;
+        this.setCallState(prev => ({ ...prev, isLocked: message.payload.locked }));
+        break;
+      case 'studio-state':
+        if (message.from !== this._callState.hostId) break;
+        this.setCallState(prev => ({ ...prev, isLocked: message.payload.locked }));
+        Object.entries(message.payload.roles).forEach(([id, role]) => this.applyRoleChange(id, role));
+        break;
+    }
+  }
+
+  private scheduleReconnect(sessionId: string) {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.error('Giving up on signaling after', this.reconnectAttempts, 'attempts');
+      this.reconnectAttempts = 0;
+      this.fail('signaling-failed');
+      return;
+    }
+    const delay = backoffDelay(this.reconnectAttempts, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts += 1;
+    console.log(`Signaling closed, reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})`);
+    if (!this.transition(CallPhase.RECONNECTING)) return;
+    this.reconnectTimer = this.deps.timers.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectWebSocket(sessionId);
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) {
+      this.deps.timers.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+  }
+
+  private closeSocket() {
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+  }
+
+  // Peer connections are peer-to-peer and usually survive a signaling outage.
+  // The re-announcement in onopen reaches anyone who joined meanwhile; here we
+  // restart ICE on any connection that broke while we could not signal.
+  private handleSignalingReconnected() {
+    this.peerConnections.forEach((pc, peerId) => {
+      if (pc.iceConnectionState === 'failed' || pc.iceConnectionState === 'disconnected') {
+        this.restartIce(peerId);
+      }
+    });
+  }
+
+  // Messages without a `to` are broadcast to everyone in the studio
+  private send(message: OutgoingSignalingMessage) {
+    if (this.ws && this.ws.readyState === this.ws.OPEN && this.user) {
+      this.ws.send(serializeSignalingMessage(message));
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatInterval = this.deps.timers.setInterval(() => {
+      this.send({ type: 'heartbeat', payload: { sentAt: Date.now() } });
+      const now = Date.now();
+      this.lastSeen.forEach((seenAt, peerId) => {
+        // A peer whose media still flows is only having signaling trouble
+        const mediaConnected = this.peerConnections.get(peerId)?.connectionState === 'connected';
+        if (now - seenAt > HEARTBEAT_TIMEOUT_MS && !mediaConnected) {
+          console.log('No heartbeat from', peerId, '- dropping participant');
+          this.removePeer(peerId);
+        }
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatInterval !== null) {
+      this.deps.timers.clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  private handleSignalingError({ code, message, fatal }: ErrorMessage['payload']) {
+    console.error(`Signaling error (${code}):`, message);
+    if (fatal) {
+      this.fail(callErrorFromSignalingCode(code));
+    }
+  }
+
+  // Tell peers (or a single newcomer) whether our mic and camera are on
+  private sendMediaState(to?: string) {
+    const stream = this.localStream;
+    if (!stream) return;
+    this.send({
+      type: 'mute-state',
+      to,
+      payload: {
+        audioEnabled: stream.getAudioTracks().some(track => track.enabled),
+        videoEnabled: stream.getVideoTracks().some(track => track.enabled),
+      },
+    });
+  }
+
+  private sendRecordingState(status: RecordingStatus, to?: string) {
+    this.send({ type: 'recording-state', to, payload: { status } });
+  }
+
+  // --- Local media -------------------------------------------------------
+
+  private cleanupMediaDevices() {
+    if (this.localStream) {
+      this.localStream.getTracks().forEach(track => track.stop());
+      this.localStream = null;
+    }
+    this.remoteStreams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    this.remoteStreams.clear();
+    this.screenStream?.getTracks().forEach(track => track.stop());
+    this.screenStream = null;
+    this.screenSenders.clear();
+    this.remoteScreenStreamIds.clear();
+    this.peerConnections.forEach(pc => pc.close());
+    this.peerConnections.clear();
+    this.chatChannels.clear();
+    this.setMediaState(initialMediaState);
+  }
+
+  private async initializeMediaDevices(audioOnly = false): Promise<MediaStream> {
+    this.cleanupMediaDevices();
+    const preferences = this._mediaPreferences;
+    const { stream, capabilities, error } = await acquireLocalMedia(
+      this.deps.mediaDevices,
+      { ...buildMediaConstraints(preferences), ...(audioOnly ? { video: false } : {}) },
+      this.deps.createMediaStream
+    );
+    // Tracks stay live when starting muted or camera-off so toggling back on is instant
+    const audioEnabled = capabilities.audio && !preferences.startMuted;
+    const videoEnabled = capabilities.video && !preferences.startWithCameraOff;
+    stream.getAudioTracks().forEach(track => { track.enabled = audioEnabled; });
+    stream.getVideoTracks().forEach(track => { track.enabled = videoEnabled; });
+    stream.getTracks().forEach(track => this.watchInputTrack(track));
+    this.localStream = stream;
+    this.setMediaState(prev => ({ ...prev, localStream: stream, capabilities, mediaError: error, audioEnabled, videoEnabled }));
+    return stream;
+  }
+
+  // Turns the microphone, camera or screen share on or off. Viewers may only turn things off.
+  async setMedia(changes: MediaChanges): Promise<void> {
+    const allowed = canSendMedia(this.localRole);
+    const stream = this.localStream;
+    if (stream && changes.audio !== undefined) {
+      const audioTrack = stream.getAudioTracks()[0];
+      if (audioTrack && (!changes.audio || allowed)) {
+        audioTrack.enabled = changes.audio;
+        this.setMediaState(prev => ({ ...prev, audioEnabled: audioTrack.enabled }));
+      }
+    }
+    if (stream && changes.video !== undefined) {
+      const videoTrack = stream.getVideoTracks()[0];
+      if (videoTrack && (!changes.video || allowed)) {
+        videoTrack.enabled = changes.video;
+        this.setMediaState(prev => ({ ...prev, videoEnabled: videoTrack.enabled }));
+      }
+    }
+    if (changes.audio !== undefined || changes.video !== undefined) {
+      this.sendMediaState();
+    }
+    if (changes.screen !== undefined) {
+      try {
+        if (!changes.screen) {
+          this.stopScreenShare();
+        } else if (!this.screenStream && allowed) {
+          await this.startScreenShare();
+        }
+      } catch (error) {
+        console.error('Error toggling screen share:', error);
+      }
+    }
+  }
+
+  // Turns our own microphone or camera off, e.g. when a moderator asks us to
+  private disableLocalTrack(kind: 'audio' | 'video') {
+    const stream = this.localStream;
+    if (!stream) return;
+    const tracks = kind === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks();
+    tracks.forEach(track => { track.enabled = false; });
+    this.setMediaState(prev => ({ ...prev, ...(kind === 'audio' ? { audioEnabled: false } : { videoEnabled: false }) }));
+    this.sendMediaState();
+  }
+
+  // Swap the outgoing track of the same kind on every peer connection in the mesh
+  private async replaceOutgoingTrack(track: MediaStreamTrack) {
+    const stream = this.localStream;
+    const replacements: Promise<void>[] = [];
+    this.peerConnections.forEach((pc, peerId) => {
+      const screenSenders = this.screenSenders.get(peerId) ?? [];
+      const sender = pc.getSenders().find(
+        (s) => s.track && s.track.kind === track.kind && !screenSenders.includes(s)
+      );
+      if (sender) {
+        replacements.push(sender.replaceTrack(track));
+        return;
+      }
+      // We joined without this kind of device, so its transceiver only receives.
+      // Sending on it changes the direction, which renegotiates.
+      const transceiver = pc.getTransceivers().find(
+        t => t.direction === 'recvonly' && !t.sender.track && t.receiver.track.kind === track.kind
+      );
+      if (!transceiver) return;
+      // Lets the peer add the track to the stream it already shows for us
+      if (stream) transceiver.sender.setStreams(stream);
+      transceiver.direction = 'sendrecv';
+      replacements.push(transceiver.sender.replaceTrack(track));
+    });
+    await Promise.all(replacements);
+  }
+
+  private async acquireInputTrack(kind: InputDeviceKind, deviceId: string | null): Promise<MediaStreamTrack> {
+    const stream = await this.deps.mediaDevices.getUserMedia(
+      kind === 'audioinput' ? { audio: audioConstraints(deviceId) } : { video: videoConstraints(deviceId) }
+    );
+    return stream.getTracks()[0];
+  }
+
+  // An unplugged device ends its track; fall back to whatever the browser picks as default
+  private watchInputTrack(track: MediaStreamTrack) {
+    track.onended = () => {
+      console.log(`${track.kind} device disconnected, falling back to default`);
+      this.fallBackToDefaultDevice(track.kind === 'audio' ? 'audioinput' : 'videoinput');
+    };
+  }
+
+  // Put a new camera or microphone track in place of the current one, locally
+  // and on every peer connection, keeping its muted/camera-off state
+  private async swapLocalTrack(newTrack: MediaStreamTrack) {
+    const stream = this.localStream;
+    if (!stream) {
+      newTrack.stop();
+      return;
+    }
+    const oldTrack = stream.getTracks().find(track => track.kind === newTrack.kind);
+    // A device we did not have before starts off until the user turns it on
+    newTrack.enabled = oldTrack ? oldTrack.enabled : false;
+    await this.replaceOutgoingTrack(newTrack);
+    if (oldTrack) {
+      oldTrack.onended = null;
+      stream.removeTrack(oldTrack);
+      oldTrack.stop();
+    }
+    stream.addTrack(newTrack);
+    this.watchInputTrack(newTrack);
+    this.recorder?.switchStream(stream);
+    this.speakerDetector?.setStreams(this.speakerStreams());
+    if (!oldTrack) {
+      const kind = newTrack.kind === 'audio' ? 'audio' : 'video';
+      this.setMediaState(prev => {
+        const capabilities = { ...prev.capabilities, [kind]: true };
+        return { ...prev, capabilities, mediaError: capabilities.audio && capabilities.video ? null : prev.mediaError };
+      });
+    }
+  }
+
+  async switchDevice(kind: MediaDeviceKind, deviceId: string): Promise<void> {
+    if (kind === 'audiooutput') {
+      this.setMediaPreferences({ ...this._mediaPreferences, audioOutputId: deviceId });
+      return;
+    }
+    const preferenceKey = kind === 'audioinput' ? 'audioInputId' : 'videoInputId';
+    const track = await this.acquireInputTrack(kind, deviceId);
+    await this.swapLocalTrack(track);
+    // Read after the awaits so a preference changed meanwhile is not overwritten
+    this.setMediaPreferences({ ...this._mediaPreferences, [preferenceKey]: deviceId });
+  }
+
+  // Asks again for whichever of camera and microphone the call started without,
+  // e.g. once access was allowed or the app holding the camera was closed
+  async retryMissingMedia(): Promise<void> {
+    const { capabilities } = this._mediaState;
+    const preferences = this._mediaPreferences;
+    let mediaError: CallErrorReason | null = null;
+    for (const kind of ['audioinput', 'videoinput'] as const) {
+      if (capabilities[kind === 'audioinput' ? 'audio' : 'video']) continue;
+      try {
+        const track = await this.acquireInputTrack(kind, kind === 'audioinput' ? preferences.audioInputId : preferences.videoInputId);
+        await this.swapLocalTrack(track);
+      } catch (error) {
+        console.error(`Still no ${kind}:`, error);
+        mediaError = mediaError ?? toCallError(error).reason;
+      }
+    }
+    this.setMediaState(prev => ({ ...prev, mediaError }));
+  }
+
+  private async fallBackToDefaultDevice(kind: InputDeviceKind) {
+    if (!this.localStream) return;
+    try {
+      const track = await this.acquireInputTrack(kind, null);
+      await this.swapLocalTrack(track);
+      const preferenceKey = kind === 'audioinput' ? 'audioInputId' : 'videoInputId';
+      this.setMediaPreferences({ ...this._mediaPreferences, [preferenceKey]: null });
+    } catch (error) {
+      console.error(`No ${kind} device left to fall back to:`, error);
+    }
+  }
+
+  // Check the devices in use are still present whenever the device list changes
+  private handleDeviceChange = () => {
+    const stream = this.localStream;
+    if (!stream) return;
+    const check = async () => {
+      const devices = await listMediaDevices(this.deps.mediaDevices);
+      const inputs: [InputDeviceKind, MediaStreamTrack | undefined, MediaDeviceInfo[]][] = [
+        ['audioinput', stream.getAudioTracks()[0], devices.audioInputs],
+        ['videoinput', stream.getVideoTracks()[0], devices.videoInputs],
+      ];
+      for (const [kind, track, available] of inputs) {
+        if (!track) continue;
+        const deviceId = track.getSettings().deviceId;
+        const missing = deviceId !== undefined && !available.some(device => device.deviceId === deviceId);
+        if (track.readyState === 'ended' || missing) {
+          console.log(`${kind} in use was removed, falling back to default`);
+          await this.fallBackToDefaultDevice(kind);
+        }
+      }
+    };
+    check().catch(error => console.error('Error handling device change:', error));
+  };
+
+  private watchDevices(enabled: boolean) {
+    if (enabled === this.watchingDevices) return;
+    this.watchingDevices = enabled;
+    if (enabled) {
+      this.deps.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    } else {
+      this.deps.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    }
+  }
+
+  // --- Screen sharing ----------------------------------------------------
+
+  private addScreenTracks(peerId: string, pc: RTCPeerConnection, screenStream: MediaStream) {
+    const senders = screenStream.getTracks().map(track => pc.addTrack(track, screenStream));
+    this.screenSenders.set(peerId, senders);
+  }
+
+  private stopScreenShare() {
+    const screenStream = this.screenStream;
+    if (!screenStream) return;
+    this.screenStream = null;
+    this.peerConnections.forEach((pc, peerId) => {
+      // Removing the senders renegotiates each connection without the screen
+      this.screenSenders.get(peerId)?.forEach(sender => pc.removeTrack(sender));
+    });
+    this.screenSenders.clear();
+    screenStream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    this.send({ type: 'screen-share', payload: { streamId: null } });
+    this.setMediaState(prev => ({ ...prev, isSharingScreen: false, screenStream: null }));
+  }
+
+  private async startScreenShare() {
+    // System or tab audio is offered where the browser supports it; the user can decline
+    const screenStream = await this.deps.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    const screenTrack = screenStream.getVideoTracks()[0];
+    if (!screenTrack) {
+      screenStream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    // Ended from the browser's own "Stop sharing" button
+    screenTrack.onended = () => this.stopScreenShare();
+    this.screenStream = screenStream;
+    this.send({ type: 'screen-share', payload: { streamId: screenStream.id } });
+    this.peerConnections.forEach((pc, peerId) => this.addScreenTracks(peerId, pc, screenStream));
+    this.setMediaState(prev => ({ ...prev, isSharingScreen: true, screenStream }));
+  }
+
+  // --- Peers -------------------------------------------------------------
+
+  private setRemoteStream(peerId: string, stream: MediaStream) {
+    this.remoteStreams.set(peerId, stream);
+    this.setMediaState(prev => ({ ...prev, remoteStreams: { ...prev.remoteStreams, [peerId]: stream } }));
+  }
+
+  private setRemoteScreenStream(peerId: string, stream: MediaStream | null) {
+    this.setMediaState(prev => {
+      const remoteScreenStreams = { ...prev.remoteScreenStreams };
+      if (stream) {
+        remoteScreenStreams[peerId] = stream;
+      } else {
+        delete remoteScreenStreams[peerId];
+      }
+      return { ...prev, remoteScreenStreams };
+    });
+  }
+
+  private handleRemoteScreenShare(peerId: string, streamId: string | null) {
+    if (streamId) {
+      this.remoteScreenStreamIds.set(peerId, streamId);
+    } else {
+      this.remoteScreenStreamIds.delete(peerId);
+      this.setRemoteScreenStream(peerId, null);
+    }
+  }
+
+  private removePeer(peerId: string) {
+    const pc = this.peerConnections.get(peerId);
+    if (pc) {
+      pc.close();
+      this.peerConnections.delete(peerId);
+    }
+    this.chatChannels.delete(peerId);
+    this.screenSenders.delete(peerId);
+    this.remoteScreenStreamIds.delete(peerId);
+    this.remoteStreams.delete(peerId);
+    this.lastSeen.delete(peerId);
+    this.negotiations.delete(peerId);
+    this.clearIceRestartTimer(peerId);
+    this.setMediaState(prev => {
+      const remoteStreams = { ...prev.remoteStreams };
+      delete remoteStreams[peerId];
+      const remoteScreenStreams = { ...prev.remoteScreenStreams };
+      delete remoteScreenStreams[peerId];
+      return { ...prev, remoteStreams, remoteScreenStreams };
+    });
+    this.setCallState(prev => ({ ...prev, participants: prev.participants.filter(p => p?.id !== peerId) }));
+    this.settlePhase();
+  }
+
+  private createPeerConnection(peerId: string): RTCPeerConnection {
+    const pc = this.deps.createPeerConnection(this.rtcConfiguration);
+    const negotiation: NegotiationState = {
+      polite: isPolitePeer(this.user?.id ?? '', peerId),
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+    };
+    this.negotiations.set(peerId, negotiation);
+
+    const chatChannel = openChatChannel(pc);
+    chatChannel.onmessage = (event) => {
+      const payload = parseChatFrame(event.data, peerId);
+      if (payload) this.receiveChatMessage(payload, peerId);
+    };
+    this.chatChannels.set(peerId, chatChannel);
+
+    const localStream = this.localStream;
+    if (localStream) {
+      localStream.getTracks().forEach(track => {
+        console.log('Adding local track:', track.kind, 'for peer:', peerId);
+        pc.addTrack(track, localStream);
+      });
+    }
+    // Without a local track of a kind we still want to receive the peer's
+    (['audio', 'video'] as const).forEach(kind => {
+      if (!localStream?.getTracks().some(track => track.kind === kind)) {
+        pc.addTransceiver(kind, { direction: 'recvonly' });
+      }
+    });
+    if (this.screenStream) {
+      // The announcement goes out before the offer so the peer can tell the streams apart
+      this.send({ type: 'screen-share', to: peerId, payload: { streamId: this.screenStream.id } });
+      this.addScreenTracks(peerId, pc, this.screenStream);
+    }
+
+    pc.ontrack = (event) => {
+      console.log('Received remote track:', event.track.kind, 'from peer:', peerId);
+      if (event.streams && event.streams[0]) {
+        if (event.streams[0].id === this.remoteScreenStreamIds.get(peerId)) {
+          this.setRemoteScreenStream(peerId, event.streams[0]);
+          return;
+        }
+        this.setRemoteStream(peerId, event.streams[0]);
+      } else {
+        // Fallback: create stream from individual tracks
+        const remoteStream = this.remoteStreams.get(peerId) ?? this.deps.createMediaStream();
+        remoteStream.addTrack(event.track);
+        this.setRemoteStream(peerId, remoteStream);
+      }
+    };
+
+    // Any change that needs a new offer (tracks added or removed, ICE
+    // restarts) lands here; collisions are resolved in handleDescription
+    pc.onnegotiationneeded = async () => {
+      try {
+        negotiation.makingOffer = true;
+        await pc.setLocalDescription();
+        if (pc.localDescription) {
+          this.send({ type: 'offer', payload: pc.localDescription.toJSON(), to: peerId });
+        }
+      } catch (error) {
+        console.error('Error during negotiation with', peerId, error);
+      } finally {
+        negotiation.makingOffer = false;
+      }
+    };
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.send({ type: 'ice-candidate', payload: event.candidate.toJSON(), to: peerId });
+      }
+    };
+
+    pc.oniceconnectionstatechange = () => {
+      console.log(`ICE connection state (${peerId}):`, pc.iceConnectionState);
+      if (this.peerConnections.get(peerId) !== pc) return;
+      switch (pc.iceConnectionState) {
+        case 'connected':
+        case 'completed':
+          console.log('WebRTC connection established with', peerId);
+          this.clearIceRestartTimer(peerId);
+          break;
+        case 'disconnected':
+          // Often transient (e.g. a Wi-Fi blip); give ICE a moment to recover on its own
+          this.clearIceRestartTimer(peerId);
+          this.iceRestartTimers.set(peerId, this.deps.timers.setTimeout(() => {
+            this.iceRestartTimers.delete(peerId);
+            if (pc.iceConnectionState === 'disconnected' || pc.iceConnectionState === 'failed') {
+              this.restartIce(peerId);
+            }
+          }, ICE_DISCONNECTED_GRACE_MS));
+          break;
+        case 'failed':
+          this.clearIceRestartTimer(peerId);
+          this.restartIce(peerId);
+          break;
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (this.peerConnections.get(peerId) !== pc) return;
+      // Only drop the peer if this connection is still the current one for it
+      if (pc.connectionState === 'closed') {
+        console.log('Peer connection closed:', peerId);
+        this.removePeer(peerId);
+        return;
+      }
+      this.settlePhase();
+    };
+
+    this.peerConnections.set(peerId, pc);
+    this.settlePhase();
+    return pc;
+  }
+
+  private clearIceRestartTimer(peerId: string) {
+    const timer = this.iceRestartTimers.get(peerId);
+    if (timer !== undefined) {
+      this.deps.timers.clearTimeout(timer);
+      this.iceRestartTimers.delete(peerId);
+    }
+  }
+
+  // restartIce() triggers negotiationneeded; if both ends restart at once the
+  // collision is resolved like any other. Without signaling the restart has to
+  // wait until the socket is back (see handleSignalingReconnected).
+  private restartIce(peerId: string) {
+    const pc = this.peerConnections.get(peerId);
+    if (!pc) return;
+    if (!this.ws || this.ws.readyState !== this.ws.OPEN) {
+      console.log('Deferring ICE restart for', peerId, 'until signaling is back');
+      return;
+    }
+    console.log('Restarting ICE with', peerId);
+    pc.restartIce();
+  }
+
+  private addParticipant(participant: User) {
+    this.setCallState(prev => (
+      prev.participants.some(p => p.id === participant.id)
+        ? prev
+        : { ...prev, participants: [...prev.participants, toParticipant(participant, prev.hostId)] }
+    ));
+  }
+
+  private updateParticipant(participantId: string, changes: Partial<Participant>) {
+    this.setCallState(prev => ({
+      ...prev,
+      participants: prev.participants.map(p => (p.id === participantId ? { ...p, ...changes } : p)),
+    }));
+  }
+
+  private roleOf(participantId: string): ParticipantRole | undefined {
+    return this._callState.participants.find(p => p.id === participantId)?.role;
+  }
+
+  // A newcomer announced itself: existing participants open a connection to
+  // it and negotiationneeded sends the offer. Announcements addressed to us
+  // are replies to our own, telling us who is already here.
+  private handleParticipantJoined(message: ParticipantJoinedMessage) {
+    const from = message.from;
+    const user = this.user;
+    const { isLocked, participants, hostId } = this._callState;
+    const isHost = !!user && user.id === hostId;
+    const isModerator = from === hostId || this.coHostIds.has(from);
+    // The join endpoint refuses removed participants too; this covers anyone already past it
+    if (this.removedIds.has(from)) {
+      if (isHost) {
+        this.send({ type: 'moderation', to: from, payload: { action: 'remove', target: from } });
+      }
+      return;
+    }
+    // Nobody new gets in while the studio is locked. The join endpoint already
+    // refuses them; the host removes anyone who reaches signaling regardless.
+    // The host and co-hosts are let back in, e.g. after a reload or a heartbeat timeout.
+    if (!message.to && isLocked && !isModerator && !participants.some(p => p.id === from)) {
+      if (isHost) {
+        this.send({ type: 'moderation', to: from, payload: { action: 'remove', target: from, reason: 'locked' } });
+      }
+      return;
+    }
+    this.addParticipant(message.payload.user);
+    if (this.coHostIds.has(from)) {
+      this.updateParticipant(from, { role: ParticipantRole.CO_HOST });
+    } else if (message.payload.role === ParticipantRole.VIEWER) {
+      this.updateParticipant(from, { role: ParticipantRole.VIEWER });
+    }
+    this.lastSeen.set(from, Date.now());
+    if (message.to || !user) return;
+
+    this.send({
+      type: 'participant-joined',
+      to: from,
+      payload: { user, ...(this.roleOf(user.id) === ParticipantRole.VIEWER ? { role: ParticipantRole.VIEWER } : {}) },
+    });
+    if (isHost) {
+      const roles = Object.fromEntries(participants.map(p => [p.id, p.role]));
+      this.send({ type: 'studio-state', to: from, payload: { locked: isLocked, roles } });
+    }
+    this.sendMediaState(from);
+    if (this.recorder) {
+      this.sendRecordingState(this._recordingState.status, from);
+    }
+
+    const existing = this.peerConnections.get(from);
+    // After a signaling blip the media connection is usually still fine
+    if (existing && message.payload.reconnect && existing.connectionState !== 'failed') {
+      return;
+    }
+    if (existing) {
+      // The participant rejoined; start over with a fresh connection
+      existing.close();
+      this.peerConnections.delete(from);
+    }
+
+    this.createPeerConnection(from);
+  }
+
+  // Perfect negotiation: when both ends offer at once the impolite peer
+  // ignores the incoming offer and the polite one rolls back its own.
+  private async handleDescription(description: RTCSessionDescriptionInit, from: string) {
+    if (this.removedIds.has(from)) return;
+    const pc = this.peerConnections.get(from) ?? this.createPeerConnection(from);
+    const negotiation = this.negotiations.get(from)!;
+
+    try {
+      const readyForOffer =
+        !negotiation.makingOffer &&
+        (pc.signalingState === 'stable' || negotiation.isSettingRemoteAnswerPending);
+      const offerCollision = description.type === 'offer' && !readyForOffer;
+
+      negotiation.ignoreOffer = !negotiation.polite && offerCollision;
+      if (negotiation.ignoreOffer) {
+        console.log('Ignoring colliding offer from', from);
+        return;
+      }
+
+      negotiation.isSettingRemoteAnswerPending = description.type === 'answer';
+      if (offerCollision) {
+        console.log('Rolling back our offer in favour of', from);
+        await Promise.all([
+          pc.setLocalDescription({ type: 'rollback' }),
+          pc.setRemoteDescription(description),
+        ]);
+      } else {
+        await pc.setRemoteDescription(description);
+      }
+      negotiation.isSettingRemoteAnswerPending = false;
+
+      if (description.type === 'offer') {
+        await pc.setLocalDescription();
+        if (pc.localDescription) {
+          this.send({ type: 'answer', payload: pc.localDescription.toJSON(), to: from });
+        }
+      }
+    } catch (error) {
+      negotiation.isSettingRemoteAnswerPending = false;
+      console.error(`Error handling ${description.type} from ${from}:`, error);
+    }
+  }
+
+  private async handleIceCandidate(candidate: RTCIceCandidateInit, from: string) {
+    const pc = this.peerConnections.get(from);
+    if (!pc) {
+      console.error('No peer connection available for ICE candidate from', from);
+      return;
+    }
+    try {
+      await pc.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates for an offer we ignored are expected to fail
+      if (!this.negotiations.get(from)?.ignoreOffer) {
+        console.error('Error adding ICE candidate:', error);
+      }
+    }
+  }
+
+  private cancelIceRefresh() {
+    if (this.iceRefreshTimer !== null) {
+      this.deps.timers.clearTimeout(this.iceRefreshTimer);
+      this.iceRefreshTimer = null;
+    }
+  }
+
+  // Fetches TURN credentials and hands them to new and existing peer connections.
+  // Without them we fall back to STUN only, which fails behind strict NATs.
+  private async loadIceServers(): Promise<void> {
+    this.cancelIceRefresh();
+    try {
+      const { ice_servers: iceServers, ttl } = await this.deps.fetchIceServers();
+      this.rtcConfiguration = { iceServers, iceTransportPolicy: environment.iceTransportPolicy };
+      this.peerConnections.forEach(pc => pc.setConfiguration(this.rtcConfiguration));
+      if (ttl > 0) {
+        this.iceRefreshTimer = this.deps.timers.setTimeout(() => {
+          this.loadIceServers();
+        }, ttl * 1000 * ICE_REFRESH_AT);
+      }
+    } catch (error) {
+      console.error('Failed to fetch TURN credentials, using STUN only:', error);
+      this.rtcConfiguration = fallbackRtcConfiguration();
+      if (environment.iceTransportPolicy === 'relay') {
+        console.warn('Relay-only ICE is configured but no TURN servers are available; connections will fail');
+      }
+    }
+  }
+
+  // --- Lifecycle ---------------------------------------------------------
+
+  // Creates the studio only; the host then goes through the lobby and joins it like anyone else
+  async createSession(sessionName: string, sessionDescription: string): Promise<string> {
+    const sessionData = await this.deps.createStudio({ name: sessionName, description: sessionDescription });
+    this.createdSession = { id: sessionData.id, name: sessionData.name, description: sessionData.description };
+    if (!this.setCallState({ ...initialCallState, sessionId: sessionData.id, session: this.createdSession })) {
+      throw new Error('Leave the current call before creating a studio');
+    }
+    return sessionData.id;
+  }
+
+  async join(sessionId: string, options: JoinOptions = {}): Promise<void> {
+    if (!this.setCallState({ ...initialCallState, sessionId, phase: CallPhase.ACQUIRING_MEDIA })) {
+      throw new Error('Leave the current call before joining another studio');
+    }
+    try {
+      await this.connect(sessionId, options);
+    } catch (error) {
+      this.cleanupMediaDevices();
+      this.cancelIceRefresh();
+      // Leaving while we were still joining is not a failure
+      const callError = toCallError(error);
+      if (this._callState.phase === CallPhase.ACQUIRING_MEDIA) {
+        this.fail(callError.reason);
+      }
+      throw callError;
+    }
+    this.deps.persistence.saveActiveCall({ sessionId, joinOptions: options });
+  }
+
+  private async connect(sessionId: string, options: JoinOptions) {
+    const user = this.user;
+    await Promise.all([this.initializeMediaDevices(options.audioOnly), this.loadIceServers()]);
+    let sessionInfo: CallState['session'];
+    let participants = user ? [user] : [];
+    let hostId: string | null = null;
+    if (this.createdSession?.id === sessionId) {
+      // We just created this studio, so we are already its host
+      sessionInfo = this.createdSession;
+      hostId = user?.id ?? null;
+    } else {
+      const sessionData = await this.deps.joinStudio({
+        session_id: sessionId,
+        ...(options.inviteToken ? { invite_token: options.inviteToken } : {}),
+      });
+      sessionInfo = { id: sessionData.id, name: sessionData.Name, description: sessionData.Description };
+      participants = [user, sessionData.host].filter((p): p is User => Boolean(p?.id));
+      hostId = sessionData.host?.id ?? null;
+    }
+    const joinedParticipants = participants.map(participant => {
+      const joined = toParticipant(participant, hostId);
+      // Viewer invites keep us off camera and mic until the host says otherwise
+      return joined.id === user?.id && joined.role !== ParticipantRole.HOST && options.role === ParticipantRole.VIEWER
+        ? { ...joined, role: ParticipantRole.VIEWER }
+        : joined;
+    });
+    // Connected only once the socket opens; see settlePhase
+    const stillJoining = this.transition(CallPhase.SIGNALING, {
+      session: sessionInfo,
+      error: null,
+      participants: joinedParticipants,
+      hostId,
+      isLocked: false,
+    });
+    if (!stillJoining) {
+      throw new Error('The call ended while joining');
+    }
+    if (!canSendMedia(this.localRole)) {
+      this.disableLocalTrack('audio');
+      this.disableLocalTrack('video');
+    }
+    this.connectWebSocket(sessionId);
+  }
+
+  // Rejoins a studio whose room page was opened directly or reloaded, picking
+  // an interrupted recording back up. Overrides such as audio only win over the saved join options.
+  async rehydrate(sessionId: string, overrides: Partial<JoinOptions> = {}): Promise<void> {
+    if (this.rehydratingSessionId === sessionId) return;
+    this.rehydratingSessionId = sessionId;
+    try {
+      const persisted = this.deps.persistence.loadActiveCall();
+      const joinOptions = persisted?.sessionId === sessionId ? persisted.joinOptions : {};
+      await this.join(sessionId, { ...joinOptions, ...overrides });
+      const recording = this.deps.persistence.loadRecordingProgress();
+      if (recording?.sessionId === sessionId) {
+        console.log('Resuming interrupted recording', recording.recordingId);
+        this.beginRecording(sessionId, recording);
+      } else {
+        this.deps.persistence.clearRecordingProgress();
+      }
+    } catch (error) {
+      // join() has already failed the call if it got to start one; when it
+      // refused because another call is live, that call is left alone
+      console.error('Failed to restore session:', error);
+    } finally {
+      this.rehydratingSessionId = null;
+    }
+  }
+
+  leave(): void {
+    this.endCall();
+  }
+
+  // Tears the call down and returns to idle, or to failed when given a reason
+  private endCall(failure?: CallErrorReason) {
+    if (this._callState.phase !== CallPhase.IDLE) {
+      this.transition(CallPhase.LEAVING);
+    }
+    // Stopping flushes the final chunk before the local tracks are torn down
+    this.stopRecording();
+    this.send({ type: 'participant-left', payload: {} });
+    this.teardownCall();
+    this.setCallState(failure ? { ...initialCallState, phase: CallPhase.FAILED, error: failure } : initialCallState);
+    this.setMediaState(initialMediaState);
+    this.setChatMessages([]);
+    this.seenChatIds.clear();
+    this.coHostIds.clear();
+    this.removedIds.clear();
+    this.setModerationNotice(null);
+    this.createdSession = null;
+    this.deps.persistence.clearActiveCall();
+  }
+
+  // Stops signaling, every timer and peer connection, and the local media
+  private teardownCall() {
+    this.stopHeartbeat();
+    this.cancelReconnect();
+    this.cancelIceRefresh();
+    this.lastSeen.clear();
+    this.negotiations.clear();
+    this.iceRestartTimers.forEach(timer => this.deps.timers.clearTimeout(timer));
+    this.iceRestartTimers.clear();
+    this.closeSocket();
+    this.cleanupMediaDevices();
+  }
+
+  // --- Chat --------------------------------------------------------------
+
+  // Names come from the participant list when a message arrives, so they stay
+  // right after the sender leaves and cannot be spoofed by the sender
+  private receiveChatMessage({ id, text, sentAt }: ChatPayload, from: string) {
+    if (this.seenChatIds.has(id)) return;
+    this.seenChatIds.add(id);
+    const senderName = this._callState.participants.find(p => p.id === from)?.username || 'Participant';
+    this.setChatMessages(prev => [...prev, { id, from, senderName, text, sentAt }]);
+  }
+
+  sendChatMessage(text: string): void {
+    const trimmed = text.trim();
+    const user = this.user;
+    if (!trimmed || !user) return;
+    const payload: ChatPayload = { id: uuidv4(), text: trimmed, sentAt: Date.now() };
+    this.receiveChatMessage(payload, user.id);
+    this.peerConnections.forEach((_, peerId) => {
+      const channel = this.chatChannels.get(peerId);
+      if (channel?.readyState === 'open') {
+        channel.send(JSON.stringify(payload));
+      } else {
+        this.send({ type: 'chat', payload, to: peerId });
+      }
+    });
+  }
+
+  // --- Moderation --------------------------------------------------------
+
+  private handleModeration(message: ModerationMessage) {
+    if (!canModerate(this.roleOf(message.from)) && message.from !== this._callState.hostId) {
+      console.warn(`Ignoring ${message.payload.action} from ${message.from}, who is not a moderator`);
+      return;
+    }
+    const { action, target, reason } = message.payload;
+    // Only the host may act on the host
+    if (target === this._callState.hostId && message.from !== target) {
+      console.warn(`Ignoring ${action} of the host from ${message.from}`);
+      return;
+    }
+    if (target !== this.user?.id) {
+      if (action === 'remove') {
+        this.removedIds.add(target);
+        this.removePeer(target);
+      }
+      return;
+    }
+    switch (action) {
+      case 'mute':
+        this.disableLocalTrack('audio');
+        this.setModerationNotice('You were muted by a moderator.');
+        break;
+      case 'stop-video':
+        this.disableLocalTrack('video');
+        this.setModerationNotice('Your camera was turned off by a moderator.');
+        break;
+      case 'remove':
+        this.endCall(reason === 'locked' ? 'studio-locked' : 'removed');
+        break;
+    }
+  }
+
+  private rememberRole(participantId: string, role: ParticipantRole) {
+    if (role === ParticipantRole.CO_HOST) {
+      this.coHostIds.add(participantId);
+    } else {
+      this.coHostIds.delete(participantId);
+    }
+  }
+
+  private applyRoleChange(participantId: string, role: ParticipantRole) {
+    this.rememberRole(participantId, role);
+    this.updateParticipant(participantId, { role });
+    if (participantId !== this.user?.id) return;
+    if (role === ParticipantRole.VIEWER) {
+      this.disableLocalTrack('audio');
+      this.disableLocalTrack('video');
+      if (this.screenStream) this.stopScreenShare();
+    }
+    this.setModerationNotice(`The host made you ${role === ParticipantRole.CO_HOST ? 'a co-host' : `a ${role}`}.`);
+  }
+
+  async moderateParticipant(participantId: string, action: ModerationAction): Promise<void> {
+    const { sessionId, hostId } = this._callState;
+    if (!sessionId || !canModerate(this.localRole) || participantId === hostId) return;
+    if (action === 'remove') {
+      // The backend keeps them out of this session, even if they reload and rejoin
+      try {
+        await this.deps.removeParticipant({ session_id: sessionId, user_id: participantId });
+      } catch (error) {
+        console.error(`Failed to remove ${participantId}:`, error);
+        return;
+      }
+      this.removedIds.add(participantId);
+    }
+    // Broadcast so everyone drops a removed participant, not just the target
+    this.send({ type: 'moderation', payload: { action, target: participantId } });
+    if (action === 'remove') this.removePeer(participantId);
+  }
+
+  async setParticipantRole(participantId: string, role: ParticipantRole): Promise<void> {
+    const sessionId = this._callState.sessionId;
+    if (!sessionId || !canManageStudio(this.localRole) || participantId === this.user?.id) return;
+    try {
+      await this.deps.changeParticipantRole({ session_id: sessionId, user_id: participantId, role });
+    } catch (error) {
+      console.error(`Failed to make ${participantId} a ${role}:`, error);
+      return;
+    }
+    this.rememberRole(participantId, role);
+    this.updateParticipant(participantId, { role });
+  }
+
+  async setStudioLocked(locked: boolean): Promise<void> {
+    const sessionId = this._callState.sessionId;
+    if (!sessionId || !canManageStudio(this.localRole)) return;
+    try {
+      await this.deps.lockStudio({ session_id: sessionId, locked });
+    } catch (error) {
+      console.error(`Failed to ${locked ? 'lock' : 'unlock'} the studio:`, error);
+      return;
+    }
+    this.setCallState(prev => ({ ...prev, isLocked: locked }));
+  }
+
+  // --- Recording ---------------------------------------------------------
+
+  // Starts recording the local stream, or continues an interrupted recording
+  private beginRecording(sessionId: string, resumeFrom?: PersistedRecording) {
+    const stream = this.localStream;
+    const user = this.user;
+    if (!stream || stream.getTracks().length === 0 || !user) {
+      console.log('cannot start recording without a local stream and session');
+      return;
+    }
+    if (this.recorder) return;
+
+    const recordingId = resumeFrom?.recordingId ?? uuidv4();
+    const target = { sessionId, userId: user.id };
+    const recorder = this.deps.createRecorder(stream, {
+      recordingId,
+      onChunk: (chunk) => {
+        console.log('Queueing chunk', chunk.sequence, 'size:', chunk.blob.size, 'offset:', chunk.startOffset);
+        this.deps.enqueueChunk(chunk, target).catch(error => {
+          console.error('Failed to queue chunk:', error);
+        });
+        this.deps.persistence.updateRecordingProgress({ elapsedMs: chunk.endOffset, nextSegment: chunk.segment + 1, nextSequence: chunk.sequence + 1 });
+      },
+      resumeFrom: resumeFrom && {
+        segment: resumeFrom.nextSegment,
+        sequence: resumeFrom.nextSequence,
+        elapsedMs: resumeFrom.elapsedMs,
+      },
+    });
+    recorder.start();
+    this.recorder = recorder;
+    const elapsedMs = resumeFrom?.elapsedMs ?? 0;
+    this.deps.persistence.saveRecordingProgress({
+      sessionId,
+      recordingId,
+      status: RecordingStatus.RECORDING,
+      elapsedMs,
+      nextSegment: resumeFrom?.nextSegment ?? 0,
+      nextSequence: resumeFrom?.nextSequence ?? 0,
+    });
+    this.setRecordingState({ status: RecordingStatus.RECORDING, recordingId, accumulatedMs: elapsedMs, resumedAt: Date.now() });
+    this.sendRecordingState(RecordingStatus.RECORDING);
+    this.settlePhase();
+    if (resumeFrom?.status === RecordingStatus.PAUSED) {
+      this.pauseRecording();
+    }
+  }
+
+  startRecording(): void {
+    if (!this._callState.sessionId) {
+      console.log('cannot start recording without a local stream and session');
+      return;
+    }
+    this.beginRecording(this._callState.sessionId);
+  }
+
+  pauseRecording(): void {
+    if (!this.recorder) return;
+    this.recorder.pause();
+    this.sendRecordingState(RecordingStatus.PAUSED);
+    this.deps.persistence.updateRecordingProgress({ status: RecordingStatus.PAUSED });
+    this.setRecordingState(prev => prev.status !== RecordingStatus.RECORDING ? prev : {
+      ...prev,
+      status: RecordingStatus.PAUSED,
+      accumulatedMs: getRecordingElapsed(prev),
+      resumedAt: null,
+    });
+  }
+
+  resumeRecording(): void {
+    if (!this.recorder) return;
+    this.recorder.resume();
+    this.sendRecordingState(RecordingStatus.RECORDING);
+    this.deps.persistence.updateRecordingProgress({ status: RecordingStatus.RECORDING });
+    this.setRecordingState(prev => prev.status !== RecordingStatus.PAUSED ? prev : {
+      ...prev,
+      status: RecordingStatus.RECORDING,
+      resumedAt: Date.now(),
+    });
+  }
+
+  // Stops the recorder without telling anyone or forgetting its progress
+  private suspendRecording() {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+    this.setRecordingState(initialRecordingState);
+    recorder.stop();
+  }
+
+  async stopRecording(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+    this.setRecordingState(initialRecordingState);
+    this.sendRecordingState(RecordingStatus.IDLE);
+    this.settlePhase();
+    // Cleared before the final chunk lands so it cannot re-create the entry
+    this.deps.persistence.clearRecordingProgress();
+    await recorder.stop();
+  }
+
+  private clearRecordingLimit() {
+    if (this.recordingLimitTimer !== null) {
+      this.deps.timers.clearTimeout(this.recordingLimitTimer);
+      this.recordingLimitTimer = null;
+    }
+  }
+
+  // Deployments can cap how long a recording runs; paused time does not count
+  private scheduleRecordingLimit() {
+    this.clearRecordingLimit();
+    const { maxDurationMs } = environment.recording;
+    if (maxDurationMs === null || this._recordingState.status !== RecordingStatus.RECORDING) return;
+    this.recordingLimitTimer = this.deps.timers.setTimeout(() => {
+      this.recordingLimitTimer = null;
+      console.log('Stopping recording at the configured limit of', maxDurationMs, 'ms');
+      this.stopRecording();
+    }, Math.max(0, maxDurationMs - getRecordingElapsed(this._recordingState)));
+  }
+}
@@ -0,0 +1,111 @@
+import axios from 'axios';
+import { CallErrorReason } from '../types';
+
+// What the user can do about a failure, offered as buttons next to its message
+export type CallRecoveryAction = 'retry' | 'audio-only' | 'open-settings' | 'dashboard';
+
+export class CallError extends Error {
+  // The underlying exception, kept for logging
+  constructor(public readonly reason: CallErrorReason, public readonly cause?: unknown) {
+    super(`Call failed: ${reason}`);
+    this.name = 'CallError';
+  }
+}
+
+export const CALL_ERROR_COPY: Record<CallErrorReason, { title: string; message: string; actions: CallRecoveryAction[] }> = {
+  'permission-denied': {
+    title: 'Camera and microphone are blocked',
+    message: 'Allow access to your camera and microphone for this site, then try again.',
+    actions: ['open-settings', 'retry'],
+  },
+  'device-busy': {
+    title: 'Your camera is in use',
+    message: 'Another app or tab is using your camera or microphone. Close it and try again, or join with audio only.',
+    actions: ['retry', 'audio-only'],
+  },
+  'device-not-found': {
+    title: 'No camera or microphone found',
+    message: 'Connect a camera or microphone and try again, or join with audio only.',
+    actions: ['retry', 'audio-only'],
+  },
+  'studio-not-found': {
+    title: 'Studio not found',
+    message: 'This studio does not exist or has been deleted. Check the session ID and try again.',
+    actions: ['dashboard'],
+  },
+  'studio-full': {
+    title: 'This studio is full',
+    message: 'The studio has reached its participant limit. Try again once someone leaves.',
+    actions: ['retry', 'dashboard'],
+  },
+  'studio-locked': {
+    title: 'This studio is locked',
+    message: 'Ask the host to unlock it and try again.',
+    actions: ['retry', 'dashboard'],
+  },
+  removed: {
+    title: 'You were removed',
+    message: 'A moderator removed you from the studio.',
+    actions: ['dashboard'],
+  },
+  'auth-expired': {
+    title: 'Your session has expired',
+    message: 'Please log in again to continue.',
+    actions: ['dashboard'],
+  },
+  'signaling-failed': {
+    title: 'Lost connection to the studio',
+    message: 'We could not reach the studio server. Check your internet connection and try again.',
+    actions: ['retry', 'dashboard'],
+  },
+  unknown: {
+    title: 'Something went wrong',
+    message: 'We could not connect you to the studio. Please try again.',
+    actions: ['retry', 'dashboard'],
+  },
+};
+
+// Browsers do not let a page open their settings, so this is what we tell people instead
+export const BROWSER_SETTINGS_HINT =
+  'Click the camera or lock icon in the address bar, allow camera and microphone for this site, then reload the page.';
+
+// getUserMedia rejects with DOMExceptions named after what went wrong
+const MEDIA_ERROR_REASONS: Record<string, CallErrorReason> = {
+  NotAllowedError: 'permission-denied',
+  SecurityError: 'permission-denied',
+  NotReadableError: 'device-busy',
+  AbortError: 'device-busy',
+  NotFoundError: 'device-not-found',
+  OverconstrainedError: 'device-not-found',
+};
+
+// Maps any failure from joining or creating a studio onto a CallError
+export const toCallError = (error: unknown): CallError => {
+  if (error instanceof CallError) return error;
+  if (error instanceof Error && error.name in MEDIA_ERROR_REASONS) {
+    return new CallError(MEDIA_ERROR_REASONS[error.name], error);
+  }
+  if (axios.isAxiosError(error) && error.response) {
+    const { status } = error.response;
+    if (status === 401) return new CallError('auth-expired', error);
+    // Someone a moderator removed may not come back into the same session
+    if (status === 403) return new CallError('removed', error);
+    if (status === 404) return new CallError('studio-not-found', error);
+    // The backend answers 409 when a studio has no room for another participant
+    if (status === 409) return new CallError('studio-full', error);
+    if (status === 423) return new CallError('studio-locked', error);
+  }
+  return new CallError('unknown', error);
+};
+
+// Fatal error codes the signaling server sends; anything else means signaling itself failed
+const SIGNALING_ERROR_REASONS: Record<string, CallErrorReason> = {
+  'studio-not-found': 'studio-not-found',
+  'studio-full': 'studio-full',
+  'studio-locked': 'studio-locked',
+  removed: 'removed',
+  unauthorized: 'auth-expired',
+};
+
+export const callErrorFromSignalingCode = (code: string): CallErrorReason =>
+  SIGNALING_ERROR_REASONS[code] ?? 'signaling-failed';
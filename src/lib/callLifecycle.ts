@@ -0,0 +1,63 @@
+import { CallPhase } from '../types';
+
+// Every phase a call may move to from each phase. Anything else is a bug and
+// is refused rather than applied.
+export const CALL_TRANSITIONS: Record<CallPhase, readonly CallPhase[]> = {
+  [CallPhase.IDLE]: [CallPhase.ACQUIRING_MEDIA],
+  [CallPhase.ACQUIRING_MEDIA]: [CallPhase.SIGNALING, CallPhase.LEAVING, CallPhase.FAILED],
+  [CallPhase.SIGNALING]: [
+    CallPhase.NEGOTIATING,
+    CallPhase.CONNECTED,
+    CallPhase.RECORDING,
+    CallPhase.RECONNECTING,
+    CallPhase.LEAVING,
+    CallPhase.FAILED,
+  ],
+  [CallPhase.NEGOTIATING]: [
+    CallPhase.CONNECTED,
+    CallPhase.RECORDING,
+    CallPhase.RECONNECTING,
+    CallPhase.LEAVING,
+    CallPhase.FAILED,
+  ],
+  [CallPhase.CONNECTED]: [
+    CallPhase.NEGOTIATING,
+    CallPhase.RECORDING,
+    CallPhase.RECONNECTING,
+    CallPhase.LEAVING,
+    CallPhase.FAILED,
+  ],
+  [CallPhase.RECORDING]: [
+    CallPhase.NEGOTIATING,
+    CallPhase.CONNECTED,
+    CallPhase.RECONNECTING,
+    CallPhase.LEAVING,
+    CallPhase.FAILED,
+  ],
+  [CallPhase.RECONNECTING]: [
+    CallPhase.NEGOTIATING,
+    CallPhase.CONNECTED,
+    CallPhase.RECORDING,
+    CallPhase.LEAVING,
+    CallPhase.FAILED,
+  ],
+  [CallPhase.LEAVING]: [CallPhase.IDLE, CallPhase.FAILED],
+  [CallPhase.FAILED]: [CallPhase.IDLE, CallPhase.ACQUIRING_MEDIA, CallPhase.LEAVING],
+};
+
+// Staying in the same phase is always allowed, e.g. to update other call state
+export const canTransition = (from: CallPhase, to: CallPhase): boolean =>
+  from === to || CALL_TRANSITIONS[from].includes(to);
+
+// Signaling is up and media flows, or is being set up, with the others
+export const isInCall = (phase: CallPhase): boolean =>
+  phase === CallPhase.NEGOTIATING || phase === CallPhase.CONNECTED || phase === CallPhase.RECORDING;
+
+// We have reached the studio's signaling and not left or failed since
+export const isJoined = (phase: CallPhase): boolean =>
+  phase === CallPhase.SIGNALING || phase === CallPhase.RECONNECTING || isInCall(phase);
+
+// Where a live call rests once nothing is in flight: recording wins, then any
+// peer connection that is not up yet
+export const settledPhase = (isRecording: boolean, peersPending: boolean): CallPhase =>
+  isRecording ? CallPhase.RECORDING : peersPending ? CallPhase.NEGOTIATING : CallPhase.CONNECTED;
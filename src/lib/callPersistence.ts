@@ -0,0 +1,70 @@
+import { JoinOptions, RecordingStatus } from '../types';
+
+// What a tab needs to find its way back into a call after a refresh. Kept in
+// sessionStorage so it survives reloads but not closing the tab, and a second
+// tab on the same room does not pick up the first tab's recording.
+
+const ACTIVE_CALL_KEY = 'activeCall';
+const ACTIVE_RECORDING_KEY = 'activeRecording';
+
+export interface PersistedCall {
+  sessionId: string;
+  joinOptions: JoinOptions;
+}
+
+// Where an interrupted recording left off; the partial chunk in flight at
+// reload time is lost, so this tracks only what was actually delivered
+export interface PersistedRecording {
+  sessionId: string;
+  recordingId: string;
+  status: RecordingStatus.RECORDING | RecordingStatus.PAUSED;
+  elapsedMs: number;
+  nextSegment: number;
+  nextSequence: number;
+}
+
+const load = <T>(key: string): T | null => {
+  try {
+    const stored = sessionStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadActiveCall = (): PersistedCall | null => load<PersistedCall>(ACTIVE_CALL_KEY);
+
+export const saveActiveCall = (call: PersistedCall): void => {
+  sessionStorage.setItem(ACTIVE_CALL_KEY, JSON.stringify(call));
+};
+
+export const clearActiveCall = (): void => {
+  sessionStorage.removeItem(ACTIVE_CALL_KEY);
+};
+
+export const loadRecordingProgress = (): PersistedRecording | null => load<PersistedRecording>(ACTIVE_RECORDING_KEY);
+
+export const saveRecordingProgress = (recording: PersistedRecording): void => {
+  sessionStorage.setItem(ACTIVE_RECORDING_KEY, JSON.stringify(recording));
+};
+
+export const updateRecordingProgress = (changes: Partial<PersistedRecording>): void => {
+  const current = loadRecordingProgress();
+  if (current) saveRecordingProgress({ ...current, ...changes });
+};
+
+export const clearRecordingProgress = (): void => {
+  sessionStorage.removeItem(ACTIVE_RECORDING_KEY);
+};
+
+export const sessionCallPersistence = {
+  loadActiveCall,
+  saveActiveCall,
+  clearActiveCall,
+  loadRecordingProgress,
+  saveRecordingProgress,
+  updateRecordingProgress,
+  clearRecordingProgress,
+};
+
+export type CallPersistence = typeof sessionCallPersistence;
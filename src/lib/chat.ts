@@ -0,0 +1,41 @@
+import { ChatMessage } from '../types';
+
+// Chat rides on a pre-negotiated data channel so both sides create it with
+// the same id and neither has to wait for an ondatachannel event.
+export const CHAT_CHANNEL_LABEL = 'chat';
+export const CHAT_CHANNEL_ID = 0;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2_000;
+
+// What goes over the wire; the sender is implied by the channel or signaling envelope
+export type ChatPayload = Omit<ChatMessage, 'from' | 'senderName'>;
+
+export const openChatChannel = (pc: RTCPeerConnection): RTCDataChannel =>
+  pc.createDataChannel(CHAT_CHANNEL_LABEL, { negotiated: true, id: CHAT_CHANNEL_ID });
+
+export const isChatPayload = (value: Record<string, unknown>): boolean =>
+  typeof value.id === 'string' &&
+  typeof value.text === 'string' &&
+  value.text.length > 0 &&
+  value.text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+  typeof value.sentAt === 'number';
+
+// Parses a data channel frame from `from`. Returns null for anything malformed.
+export const parseChatFrame = (raw: unknown, from: string): ChatPayload | null => {
+  if (typeof raw !== 'string') return null;
+  try {
+    const data: unknown = JSON.parse(raw);
+    if (typeof data !== 'object' || data === null || !isChatPayload(data as Record<string, unknown>)) {
+      console.warn('Dropping malformed chat frame from', from);
+      return null;
+    }
+    const { id, text, sentAt } = data as ChatPayload;
+    return { id, text, sentAt };
+  } catch {
+    console.warn('Dropping non-JSON chat frame from', from);
+    return null;
+  }
+};
+
+export const formatChatTime = (sentAt: number): string =>
+  new Date(sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
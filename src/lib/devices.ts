@@ -0,0 +1,99 @@
+import { CallErrorReason, MediaCapabilities, MediaPreferences } from '../types';
+import { toCallError } from './callErrors';
+
+export interface MediaDeviceLists {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+const PREFERENCES_STORAGE_KEY = 'mediaPreferences';
+
+export const defaultMediaPreferences: MediaPreferences = {
+  audioInputId: null,
+  videoInputId: null,
+  audioOutputId: null,
+  startMuted: false,
+  startWithCameraOff: false,
+};
+
+// Device labels are only filled in once the page has media permission
+export const listMediaDevices = async (mediaDevices: MediaDevices = navigator.mediaDevices): Promise<MediaDeviceLists> => {
+  const devices = await mediaDevices.enumerateDevices();
+  return {
+    audioInputs: devices.filter(device => device.kind === 'audioinput'),
+    videoInputs: devices.filter(device => device.kind === 'videoinput'),
+    audioOutputs: devices.filter(device => device.kind === 'audiooutput'),
+  };
+};
+
+export const audioConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  echoCancellation: true,
+  noiseSuppression: true,
+});
+
+export const videoConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+});
+
+export interface LocalMedia {
+  stream: MediaStream;
+  capabilities: MediaCapabilities;
+  // Why not everything asked for could be had; null when it all was
+  error: CallErrorReason | null;
+}
+
+// Tries camera and microphone, then the microphone alone, and finally settles
+// for an empty stream so a missing or blocked device never stops a join; the
+// user can then still see and hear everyone else
+export const acquireLocalMedia = async (
+  mediaDevices: MediaDevices,
+  constraints: MediaStreamConstraints,
+  createMediaStream: () => MediaStream = () => new MediaStream()
+): Promise<LocalMedia> => {
+  const attempts = constraints.video
+    ? [constraints, { audio: constraints.audio, video: false }]
+    : [constraints];
+  let error: CallErrorReason | null = null;
+  for (const attempt of attempts) {
+    try {
+      const stream = await mediaDevices.getUserMedia(attempt);
+      return {
+        stream,
+        capabilities: { audio: stream.getAudioTracks().length > 0, video: stream.getVideoTracks().length > 0 },
+        error,
+      };
+    } catch (caught) {
+      console.warn(`Could not get ${attempt.video ? 'camera and microphone' : 'microphone'}:`, caught);
+      // The first failure says why the devices the user wanted are missing
+      error = error ?? toCallError(caught).reason;
+    }
+  }
+  return { stream: createMediaStream(), capabilities: { audio: false, video: false }, error };
+};
+
+export const buildMediaConstraints = (preferences: MediaPreferences): MediaStreamConstraints => ({
+  audio: audioConstraints(preferences.audioInputId),
+  video: videoConstraints(preferences.videoInputId),
+});
+
+// Chosen devices are remembered so the next lobby starts with them selected
+export const loadMediaPreferences = (): MediaPreferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    return stored ? { ...defaultMediaPreferences, ...JSON.parse(stored) } : defaultMediaPreferences;
+  } catch {
+    return defaultMediaPreferences;
+  }
+};
+
+export const saveMediaPreferences = (preferences: MediaPreferences): void => {
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+};
+
+// Speaker selection needs HTMLMediaElement.setSinkId, which not every browser has
+export const supportsAudioOutputSelection = (): boolean =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
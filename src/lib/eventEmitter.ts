@@ -0,0 +1,24 @@
+// Minimal event emitter with typed payloads, keyed by event name
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+
+  // Returns a function that removes the listener again
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    const listeners = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+
+  protected removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
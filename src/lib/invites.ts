@@ -0,0 +1,59 @@
+import axios from 'axios';
+import { createInvite as createInviteRequest, validateInvite as validateInviteRequest } from '../api/invites';
+import { ParticipantRole } from '../types';
+
+// Roles an invite link can grant. Hosts and co-hosts are only ever promoted in the room.
+export const INVITABLE_ROLES = [ParticipantRole.GUEST, ParticipantRole.VIEWER] as const;
+export type InviteRole = (typeof INVITABLE_ROLES)[number];
+
+export interface Invite {
+  token: string;
+  role: InviteRole;
+  expiresAt: string | null;
+}
+
+export type InviteErrorReason = 'expired' | 'invalid' | 'not-found';
+
+export class InviteError extends Error {
+  constructor(public readonly reason: InviteErrorReason) {
+    super(`Invite is ${reason}`);
+    this.name = 'InviteError';
+  }
+}
+
+export const isInviteRole = (value: unknown): value is InviteRole =>
+  INVITABLE_ROLES.includes(value as InviteRole);
+
+export const buildInviteUrl = (sessionId: string, invite?: { token?: string; role?: InviteRole }): string => {
+  const url = new URL(`/join/${encodeURIComponent(sessionId)}`, window.location.origin);
+  if (invite?.token) url.searchParams.set('token', invite.token);
+  if (invite?.role && invite.role !== ParticipantRole.GUEST) url.searchParams.set('role', invite.role);
+  return url.toString();
+};
+
+export const createInvite = async (sessionId: string, role: InviteRole): Promise<Invite> => {
+  const invite = await createInviteRequest({ session_id: sessionId, role });
+  return { token: invite.token, role: isInviteRole(invite.role) ? invite.role : role, expiresAt: invite.expires_at ?? null };
+};
+
+// Checks an invite token with the backend and returns the role it grants.
+// Throws InviteError when the invite cannot be used.
+export const validateInvite = async (sessionId: string, inviteToken: string): Promise<InviteRole> => {
+  try {
+    const { valid, reason, invite } = await validateInviteRequest({ session_id: sessionId, token: inviteToken });
+    if (!valid) {
+      throw new InviteError(reason === 'expired' ? 'expired' : 'invalid');
+    }
+    return isInviteRole(invite?.role) ? invite.role : ParticipantRole.GUEST;
+  } catch (error) {
+    if (error instanceof InviteError) throw error;
+    if (axios.isAxiosError(error) && error.response) {
+      const { status } = error.response;
+      if (status === 410) throw new InviteError('expired');
+      if (status === 404) throw new InviteError('not-found');
+      // A 401 means our own session expired, which the API client already handles
+      if (status === 400 || status === 403) throw new InviteError('invalid');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,107 @@
+// Decides which tiles go where in the video room. Kept free of React so the
+// rules are easy to follow in one place.
+
+export type LayoutMode = 'grid' | 'speaker' | 'spotlight' | 'screenshare';
+
+export const LAYOUT_MODES: { mode: LayoutMode; label: string }[] = [
+  { mode: 'grid', label: 'Grid' },
+  { mode: 'speaker', label: 'Speaker' },
+  { mode: 'spotlight', label: 'Spotlight' },
+  { mode: 'screenshare', label: 'Screen share' },
+];
+
+export interface LayoutInput {
+  mode: LayoutMode;
+  // All tiles in display order, local tile first
+  tileIds: string[];
+  // Tiles currently showing a shared screen
+  screenShareIds: string[];
+  localId: string;
+  // Remote speaker to feature; the local tile is never featured automatically
+  speakerId: string | null;
+  pinnedId: string | null;
+  // Extra grid cells for placeholders such as "waiting for others"
+  placeholderCount?: number;
+  width: number;
+  height: number;
+}
+
+export interface Layout {
+  // Tiles on the main stage; a single entry means it gets the whole stage
+  stage: string[];
+  // Small tiles in the strip below the stage
+  filmstrip: string[];
+  columns: number;
+  rows: number;
+}
+
+const TILE_ASPECT_RATIO = 16 / 9;
+export const TILE_GAP_PX = 16;
+
+// Picks the column count that gives the largest 16:9 tiles for `count` tiles in the given box
+export const computeGrid = (count: number, width: number, height: number): { columns: number; rows: number } => {
+  if (count <= 1) return { columns: 1, rows: 1 };
+  if (width <= 0 || height <= 0) {
+    const columns = Math.ceil(Math.sqrt(count));
+    return { columns, rows: Math.ceil(count / columns) };
+  }
+
+  let best = { columns: 1, rows: count, area: 0 };
+  for (let columns = 1; columns <= count; columns++) {
+    const rows = Math.ceil(count / columns);
+    const cellWidth = (width - TILE_GAP_PX * (columns - 1)) / columns;
+    const cellHeight = (height - TILE_GAP_PX * (rows - 1)) / rows;
+    if (cellWidth <= 0 || cellHeight <= 0) continue;
+    const tileWidth = Math.min(cellWidth, cellHeight * TILE_ASPECT_RATIO);
+    const area = tileWidth * (tileWidth / TILE_ASPECT_RATIO);
+    if (area > best.area) {
+      best = { columns, rows, area };
+    }
+  }
+  return { columns: best.columns, rows: best.rows };
+};
+
+const pickFeatured = (input: LayoutInput, preferScreens: boolean): string => {
+  const { tileIds, screenShareIds, pinnedId, speakerId, localId } = input;
+  if (pinnedId && tileIds.includes(pinnedId)) return pinnedId;
+  if (preferScreens) {
+    const screen = screenShareIds.find(id => tileIds.includes(id));
+    if (screen) return screen;
+  }
+  if (speakerId && tileIds.includes(speakerId)) return speakerId;
+  return tileIds.find(id => id !== localId) ?? localId;
+};
+
+export const computeLayout = (input: LayoutInput): Layout => {
+  const { tileIds, pinnedId, localId, width, height } = input;
+  let mode = input.mode;
+  if (mode === 'screenshare' && !input.screenShareIds.some(id => tileIds.includes(id))) {
+    mode = 'speaker';
+  }
+
+  // Focused modes need someone other than ourselves to focus on
+  const hasRemote = tileIds.some(id => id !== localId);
+  if (mode === 'grid' || !hasRemote) {
+    const stage = pinnedId && tileIds.includes(pinnedId)
+      ? [pinnedId, ...tileIds.filter(id => id !== pinnedId)]
+      : tileIds;
+    return { stage, filmstrip: [], ...computeGrid(stage.length + (input.placeholderCount ?? 0), width, height) };
+  }
+
+  const featured = pickFeatured(input, mode === 'screenshare');
+  const filmstrip = mode === 'spotlight' ? [] : tileIds.filter(id => id !== featured);
+  return { stage: [featured], filmstrip, columns: 1, rows: 1 };
+};
+
+const layoutStorageKey = (userId: string) => `layout:${userId}`;
+
+export const loadLayoutMode = (userId: string | undefined): LayoutMode => {
+  if (!userId) return 'grid';
+  const stored = localStorage.getItem(layoutStorageKey(userId));
+  return LAYOUT_MODES.some(option => option.mode === stored) ? (stored as LayoutMode) : 'grid';
+};
+
+export const saveLayoutMode = (userId: string | undefined, mode: LayoutMode): void => {
+  if (!userId) return;
+  localStorage.setItem(layoutStorageKey(userId), mode);
+};
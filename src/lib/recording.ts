@@ -0,0 +1,162 @@
+import { environment } from '../environment';
+import { RecordingState, RecordingStatus } from '../types';
+
+// A slice of a local recording, timestamped relative to the recording start.
+// Offsets only count time spent recording, so paused spans are skipped.
+// A new segment starts whenever the recorded stream is swapped (e.g. a
+// device switch); each segment is a self-contained media file.
+export interface RecordedChunk {
+  recordingId: string;
+  segment: number;
+  sequence: number;
+  blob: Blob;
+  mimeType: string;
+  startOffset: number;
+  endOffset: number;
+  capturedAt: number;
+}
+
+export interface LocalRecorderOptions {
+  recordingId: string;
+  onChunk: (chunk: RecordedChunk) => void;
+  timeslice?: number;
+  // Continue an interrupted recording (e.g. after a page reload) in a new
+  // segment, keeping sequence numbers and offsets running
+  resumeFrom?: { segment: number; sequence: number; elapsedMs: number };
+}
+
+// Preferred containers, best quality first
+const MIME_TYPE_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+export const pickRecordingMimeType = (): string => {
+  const supported = MIME_TYPE_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+  return supported ?? '';
+};
+
+export const getRecordingElapsed = (state: RecordingState, now = Date.now()): number => {
+  if (state.status === RecordingStatus.RECORDING && state.resumedAt !== null) {
+    return state.accumulatedMs + (now - state.resumedAt);
+  }
+  return state.accumulatedMs;
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+// Records a participant's local stream with MediaRecorder and hands out
+// timestamped chunks every `timeslice` milliseconds.
+export class LocalRecorder {
+  private recorder: MediaRecorder;
+  private recordingId: string;
+  private onChunk: (chunk: RecordedChunk) => void;
+  private timeslice: number;
+  private segment = 0;
+  private sequence = 0;
+  private accumulatedMs = 0;
+  private resumedAt: number | null = null;
+  private lastOffset = 0;
+
+  constructor(stream: MediaStream, { recordingId, onChunk, timeslice = environment.recording.chunkIntervalMs, resumeFrom }: LocalRecorderOptions) {
+    this.recordingId = recordingId;
+    this.onChunk = onChunk;
+    this.timeslice = timeslice;
+    if (resumeFrom) {
+      this.segment = resumeFrom.segment;
+      this.sequence = resumeFrom.sequence;
+      this.accumulatedMs = resumeFrom.elapsedMs;
+      this.lastOffset = resumeFrom.elapsedMs;
+    }
+    this.recorder = this.createMediaRecorder(stream);
+  }
+
+  private createMediaRecorder(stream: MediaStream): MediaRecorder {
+    const mimeType = pickRecordingMimeType();
+    // Recording a copy keeps later track swaps on the caller's stream from
+    // changing this recorder's track set, which would make it error out
+    const recorder = new MediaRecorder(new MediaStream(stream.getTracks()), {
+      ...(mimeType ? { mimeType } : {}),
+      videoBitsPerSecond: environment.recording.videoBitsPerSecond,
+      audioBitsPerSecond: environment.recording.audioBitsPerSecond,
+    });
+    const segment = this.segment;
+    recorder.ondataavailable = (event) => this.handleData(event, segment, recorder.mimeType);
+    return recorder;
+  }
+
+  private elapsed(): number {
+    return this.resumedAt === null ? this.accumulatedMs : this.accumulatedMs + (Date.now() - this.resumedAt);
+  }
+
+  private handleData(event: BlobEvent, segment: number, mimeType: string) {
+    if (!event.data || event.data.size === 0) return;
+    const endOffset = this.elapsed();
+    this.onChunk({
+      recordingId: this.recordingId,
+      segment,
+      sequence: this.sequence++,
+      blob: event.data,
+      mimeType,
+      startOffset: this.lastOffset,
+      endOffset,
+      capturedAt: Date.now(),
+    });
+    this.lastOffset = endOffset;
+  }
+
+  start(): void {
+    this.resumedAt = Date.now();
+    this.recorder.start(this.timeslice);
+  }
+
+  pause(): void {
+    if (this.recorder.state !== 'recording') return;
+    // Flush what we have so the chunk boundary lines up with the pause
+    this.recorder.requestData();
+    this.recorder.pause();
+    this.accumulatedMs = this.elapsed();
+    this.resumedAt = null;
+  }
+
+  resume(): void {
+    if (this.recorder.state !== 'paused') return;
+    this.resumedAt = Date.now();
+    this.recorder.resume();
+  }
+
+  // Continues the same recording from a different stream, e.g. after switching
+  // camera or microphone. The current segment is closed and a new one begun.
+  switchStream(stream: MediaStream): void {
+    const previous = this.recorder;
+    if (previous.state === 'inactive') return;
+    const wasPaused = previous.state === 'paused';
+    previous.stop();
+    this.segment += 1;
+    this.recorder = this.createMediaRecorder(stream);
+    this.recorder.start(this.timeslice);
+    if (wasPaused) {
+      this.recorder.pause();
+    }
+  }
+
+  // Resolves once the final chunk has been delivered
+  stop(): Promise<void> {
+    if (this.recorder.state === 'inactive') return Promise.resolve();
+    return new Promise(resolve => {
+      this.recorder.addEventListener('stop', () => resolve(), { once: true });
+      this.recorder.stop();
+      this.accumulatedMs = this.elapsed();
+      this.resumedAt = null;
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  downloadRecordingArchive,
+  downloadRecordingTrack,
+  listRecordingTracks as listRecordingTracksRequest,
+} from '../api/recordings';
+import { RecordingTrackRecord } from '../api/types';
+import { extensionFor } from './recordingUpload';
+
+// How much of a participant's recording reached the server
+export type TrackUploadStatus = 'complete' | 'uploading' | 'incomplete';
+
+// One participant's recording of a session, assembled by the backend from
+// the chunks that participant uploaded
+export interface RecordingTrack {
+  // The participant's recordingId
+  id: string;
+  userId: string;
+  username: string;
+  // Wall-clock start, used to line tracks up against each other
+  startedAt: string;
+  durationMs: number;
+  uploadedChunks: number;
+  // Null until the participant has stopped recording and the total is known
+  expectedChunks: number | null;
+  status: TrackUploadStatus;
+  // Playable media, signed by the backend so it works without auth headers
+  mediaUrl: string;
+  mimeType: string;
+}
+
+const UPLOAD_STATUSES: TrackUploadStatus[] = ['complete', 'uploading', 'incomplete'];
+
+const toRecordingTrack = (track: RecordingTrackRecord): RecordingTrack => ({
+  id: track.recording_id,
+  userId: track.user_id,
+  username: track.username ?? 'Participant',
+  startedAt: track.started_at,
+  durationMs: track.duration_ms ?? 0,
+  uploadedChunks: track.uploaded_chunks ?? 0,
+  expectedChunks: track.expected_chunks ?? null,
+  status: UPLOAD_STATUSES.includes(track.status as TrackUploadStatus) ? (track.status as TrackUploadStatus) : 'uploading',
+  mediaUrl: track.media_url,
+  mimeType: track.mime_type ?? 'video/webm',
+});
+
+export const listRecordingTracks = async (studioId: string): Promise<RecordingTrack[]> => {
+  const tracks = await listRecordingTracksRequest(studioId);
+  return tracks.map(toRecordingTrack);
+};
+
+// Share of the track's chunks that arrived, or null while the total is unknown
+export const trackCompleteness = (track: RecordingTrack): number | null =>
+  track.expectedChunks ? Math.min(1, track.uploadedChunks / track.expectedChunks) : null;
+
+// Milliseconds each track starts after the earliest one
+export const trackOffsets = (tracks: RecordingTrack[]): Record<string, number> => {
+  const starts = tracks.map(track => new Date(track.startedAt).getTime());
+  const earliest = Math.min(...starts);
+  return Object.fromEntries(tracks.map((track, index) => [track.id, starts[index] - earliest]));
+};
+
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadTrack = async (studioId: string, track: RecordingTrack): Promise<void> => {
+  const blob = await downloadRecordingTrack(studioId, track.id);
+  saveBlob(blob, `${track.username}-${track.id}.${extensionFor(track.mimeType)}`);
+};
+
+export const downloadAllTracks = async (studioId: string): Promise<void> => {
+  const blob = await downloadRecordingArchive(studioId);
+  saveBlob(blob, `studio-${studioId}-recordings.zip`);
+};
@@ -0,0 +1,31 @@
+import { apiClient } from '../api/client';
+import { RecordedChunk } from './recording';
+
+export interface ChunkUploadTarget {
+  sessionId: string;
+  userId: string;
+}
+
+// File extension for a recording's container format
+export const extensionFor = (mimeType: string) => (mimeType.startsWith('video/mp4') ? 'mp4' : 'webm');
+
+export const uploadRecordingChunk = async (chunk: RecordedChunk, target: ChunkUploadTarget): Promise<void> => {
+  const formData = new FormData();
+  formData.append('sessionId', target.sessionId);
+  formData.append('userId', target.userId);
+  formData.append('recordingId', chunk.recordingId);
+  formData.append('segment', chunk.segment.toString());
+  formData.append('sequence', chunk.sequence.toString());
+  formData.append('timestamp', chunk.startOffset.toString());
+  formData.append('duration', (chunk.endOffset - chunk.startOffset).toString());
+  formData.append(
+    'chunk',
+    chunk.blob,
+    `recording-${chunk.recordingId}-${chunk.segment}-${chunk.sequence.toString().padStart(6, '0')}.${extensionFor(chunk.mimeType)}`
+  );
+  await apiClient.post('api/v1/stream/upload', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+};
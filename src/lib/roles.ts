@@ -0,0 +1,19 @@
+import { ParticipantRole } from '../types';
+
+export const ROLE_LABELS: Record<ParticipantRole, string> = {
+  [ParticipantRole.HOST]: 'Host',
+  [ParticipantRole.CO_HOST]: 'Co-host',
+  [ParticipantRole.GUEST]: 'Guest',
+  [ParticipantRole.VIEWER]: 'Viewer',
+};
+
+// Muting, stopping video and removing people
+export const canModerate = (role: ParticipantRole | undefined): boolean =>
+  role === ParticipantRole.HOST || role === ParticipantRole.CO_HOST;
+
+// Locking the studio and changing other people's roles stay with the host
+export const canManageStudio = (role: ParticipantRole | undefined): boolean =>
+  role === ParticipantRole.HOST;
+
+export const canSendMedia = (role: ParticipantRole | undefined): boolean =>
+  role !== ParticipantRole.VIEWER;
@@ -0,0 +1,154 @@
+import { ModerationAction, ParticipantRole, RecordingStatus, User } from '../types';
+import { ChatPayload, isChatPayload } from './chat';
+
+// Wire protocol spoken over the studio WebSocket. Every frame carries the
+// protocol version so clients of different builds can tell when they no
+// longer understand each other. Version 2 stopped clients from naming
+// themselves as the sender.
+export const PROTOCOL_VERSION = 2;
+
+// Sender id used by frames the backend originates itself
+export const SERVER_SENDER = 'server';
+
+interface Envelope<T extends string, P> {
+  v: number;
+  type: T;
+  // Stamped by the signaling server with the user id the socket authenticated
+  // as, overwriting anything a client put there, so it can be trusted
+  from: string;
+  // Omitted for messages broadcast to the whole studio
+  to?: string;
+  payload: P;
+}
+
+export type OfferMessage = Envelope<'offer', RTCSessionDescriptionInit>;
+export type AnswerMessage = Envelope<'answer', RTCSessionDescriptionInit>;
+export type IceCandidateMessage = Envelope<'ice-candidate', RTCIceCandidateInit>;
+// `reconnect` is set when a participant re-announces after its signaling socket dropped.
+// `role` is only ever a self-declared downgrade, e.g. joining from a viewer invite.
+export type ParticipantJoinedMessage = Envelope<'participant-joined', { user: User; reconnect?: boolean; role?: ParticipantRole }>;
+export type ParticipantLeftMessage = Envelope<'participant-left', { reason?: string }>;
+export type MuteStateMessage = Envelope<'mute-state', { audioEnabled: boolean; videoEnabled: boolean }>;
+export type RecordingStateMessage = Envelope<'recording-state', { status: RecordingStatus }>;
+export type HeartbeatMessage = Envelope<'heartbeat', { sentAt: number }>;
+export type ErrorMessage = Envelope<'error', { code: string; message: string; fatal?: boolean }>;
+// Tells peers which of our media streams is a screen share; null when sharing stops
+export type ScreenShareMessage = Envelope<'screen-share', { streamId: string | null }>;
+// Moderation requests; receivers only act on them when the sender is host or co-host
+export type ModerationMessage = Envelope<'moderation', { action: ModerationAction; target: string; reason?: string }>;
+// Role and lock changes are made through the REST API, which checks the caller
+// may make them; the server then announces them itself
+export type RoleChangeMessage = Envelope<'role-change', { target: string; role: ParticipantRole }>;
+export type StudioLockMessage = Envelope<'studio-lock', { locked: boolean }>;
+// Sent by the host to each newcomer so it learns roles and lock state it missed
+export type StudioStateMessage = Envelope<'studio-state', { locked: boolean; roles: Record<string, ParticipantRole> }>;
+// Relayed chat, used when the data channel to the recipient is not open
+export type ChatSignalingMessage = Envelope<'chat', ChatPayload>;
+
+export type SignalingMessage =
+  | OfferMessage
+  | AnswerMessage
+  | IceCandidateMessage
+  | ParticipantJoinedMessage
+  | ParticipantLeftMessage
+  | MuteStateMessage
+  | RecordingStateMessage
+  | HeartbeatMessage
+  | ErrorMessage
+  | ChatSignalingMessage
+  | ScreenShareMessage
+  | ModerationMessage
+  | RoleChangeMessage
+  | StudioLockMessage
+  | StudioStateMessage;
+
+export type SignalingMessageType = SignalingMessage['type'];
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// What callers hand to the socket; the version is stamped on send and the sender by the server
+export type OutgoingSignalingMessage = DistributiveOmit<SignalingMessage, 'v' | 'from'>;
+
+type Validator = (payload: Record<string, unknown>) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSessionDescription: Validator = (payload) =>
+  (payload.type === 'offer' || payload.type === 'answer' || payload.type === 'pranswer' || payload.type === 'rollback') &&
+  (payload.sdp === undefined || typeof payload.sdp === 'string');
+
+const MODERATION_ACTIONS: ModerationAction[] = ['mute', 'stop-video', 'remove'];
+
+const isRole = (value: unknown): boolean => Object.values(ParticipantRole).includes(value as ParticipantRole);
+
+const PAYLOAD_VALIDATORS: Record<SignalingMessageType, Validator> = {
+  offer: isSessionDescription,
+  answer: isSessionDescription,
+  'ice-candidate': (payload) => payload.candidate === undefined || typeof payload.candidate === 'string',
+  'participant-joined': (payload) =>
+    isRecord(payload.user) && typeof payload.user.id === 'string' && typeof payload.user.username === 'string' &&
+    (payload.reconnect === undefined || typeof payload.reconnect === 'boolean') &&
+    (payload.role === undefined || isRole(payload.role)),
+  'participant-left': (payload) => payload.reason === undefined || typeof payload.reason === 'string',
+  'mute-state': (payload) => typeof payload.audioEnabled === 'boolean' && typeof payload.videoEnabled === 'boolean',
+  'recording-state': (payload) =>
+    Object.values(RecordingStatus).includes(payload.status as RecordingStatus),
+  heartbeat: (payload) => typeof payload.sentAt === 'number',
+  error: (payload) => typeof payload.code === 'string' && typeof payload.message === 'string',
+  chat: isChatPayload,
+  'screen-share': (payload) => payload.streamId === null || typeof payload.streamId === 'string',
+  moderation: (payload) =>
+    MODERATION_ACTIONS.includes(payload.action as ModerationAction) && typeof payload.target === 'string' &&
+    (payload.reason === undefined || typeof payload.reason === 'string'),
+  'role-change': (payload) => typeof payload.target === 'string' && isRole(payload.role),
+  'studio-lock': (payload) => typeof payload.locked === 'boolean',
+  'studio-state': (payload) =>
+    typeof payload.locked === 'boolean' && isRecord(payload.roles) && Object.values(payload.roles).every(isRole),
+};
+
+// Frames the backend may send without a sender id
+const SERVER_MESSAGE_TYPES: SignalingMessageType[] = ['heartbeat', 'error', 'role-change', 'studio-lock'];
+
+const isMessageType = (type: unknown): type is SignalingMessageType =>
+  typeof type === 'string' && type in PAYLOAD_VALIDATORS;
+
+// Parses and validates a raw WebSocket frame. Returns null (and logs why)
+// for anything that is not a well-formed message of our protocol version.
+export const parseSignalingMessage = (raw: unknown): SignalingMessage | null => {
+  let data: unknown;
+  try {
+    data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch {
+    console.warn('Dropping non-JSON signaling frame');
+    return null;
+  }
+
+  if (!isRecord(data)) {
+    console.warn('Dropping malformed signaling frame:', data);
+    return null;
+  }
+  if (data.v !== PROTOCOL_VERSION) {
+    console.warn(`Dropping signaling frame with protocol version ${String(data.v)}, expected ${PROTOCOL_VERSION}`);
+    return null;
+  }
+  if (!isMessageType(data.type)) {
+    console.warn('Dropping signaling frame of unknown type:', data.type);
+    return null;
+  }
+
+  const from = data.from ?? (SERVER_MESSAGE_TYPES.includes(data.type) ? SERVER_SENDER : undefined);
+  if (typeof from !== 'string' || (data.to !== undefined && typeof data.to !== 'string')) {
+    console.warn(`Dropping ${data.type} frame with invalid addressing`);
+    return null;
+  }
+  if (!isRecord(data.payload) || !PAYLOAD_VALIDATORS[data.type](data.payload)) {
+    console.warn(`Dropping ${data.type} frame with invalid payload`);
+    return null;
+  }
+
+  return { ...data, from } as SignalingMessage;
+};
+
+export const serializeSignalingMessage = (message: OutgoingSignalingMessage): string =>
+  JSON.stringify({ ...message, v: PROTOCOL_VERSION });
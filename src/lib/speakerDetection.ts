@@ -0,0 +1,117 @@
+import { AudioLevelMeter, createAudioLevelMeter } from './audioLevel';
+
+// Levels above this (after smoothing) count as speech rather than room noise
+const SPEAKING_THRESHOLD = 0.08;
+// Smoothing factors: rise quickly when someone starts talking, fall slowly
+// between words so the level doesn't flicker
+const ATTACK = 0.5;
+const RELEASE = 0.1;
+// Keep the current speaker for this long after they go quiet, so short
+// pauses or a cough from someone else don't bounce the spotlight around
+const SPEAKER_HOLD_MS = 1_500;
+// Someone new has to talk for this long before taking over
+const SPEAKER_SWITCH_MS = 300;
+
+export const SPEAKER_SAMPLE_INTERVAL_MS = 100;
+
+export interface SpeakerSample {
+  levels: Record<string, number>;
+  activeSpeakerId: string | null;
+}
+
+interface MeteredStream {
+  stream: MediaStream;
+  trackId: string;
+  meter: AudioLevelMeter;
+  level: number;
+  // When this participant last crossed the speaking threshold, and since when they've been above it
+  lastSpokeAt: number;
+  speakingSince: number | null;
+}
+
+// Tracks speaking levels for a set of participants through one shared
+// AudioContext and decides who the active speaker is.
+export class SpeakerDetector {
+  private readonly audioContext = new AudioContext();
+  private readonly streams = new Map<string, MeteredStream>();
+  private activeSpeakerId: string | null = null;
+
+  // Brings the metered set in line with `streams`, keyed by participant id.
+  // Streams without audio yet are skipped and picked up on a later call.
+  setStreams(streams: Record<string, MediaStream | null>): void {
+    for (const [id, entry] of this.streams) {
+      const stream = streams[id];
+      if (!stream || stream !== entry.stream || stream.getAudioTracks()[0]?.id !== entry.trackId) {
+        this.detach(id);
+      }
+    }
+    for (const [id, stream] of Object.entries(streams)) {
+      const track = stream?.getAudioTracks()[0];
+      if (!stream || !track || this.streams.has(id)) continue;
+      try {
+        this.streams.set(id, {
+          stream,
+          trackId: track.id,
+          meter: createAudioLevelMeter(new MediaStream([track]), this.audioContext),
+          level: 0,
+          lastSpokeAt: 0,
+          speakingSince: null,
+        });
+      } catch (error) {
+        console.error(`Failed to analyse audio for ${id}:`, error);
+      }
+    }
+    // Contexts created before a user gesture start suspended
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(error => console.error('Failed to resume audio analysis:', error));
+    }
+  }
+
+  sample(now = Date.now()): SpeakerSample {
+    const levels: Record<string, number> = {};
+    let loudestId: string | null = null;
+    let loudestLevel = SPEAKING_THRESHOLD;
+
+    for (const [id, entry] of this.streams) {
+      const raw = entry.meter.getLevel();
+      entry.level += (raw - entry.level) * (raw > entry.level ? ATTACK : RELEASE);
+      levels[id] = entry.level;
+
+      if (entry.level >= SPEAKING_THRESHOLD) {
+        entry.lastSpokeAt = now;
+        entry.speakingSince ??= now;
+      } else {
+        entry.speakingSince = null;
+      }
+      if (entry.level > loudestLevel && entry.speakingSince !== null && now - entry.speakingSince >= SPEAKER_SWITCH_MS) {
+        loudestId = id;
+        loudestLevel = entry.level;
+      }
+    }
+
+    const current = this.activeSpeakerId ? this.streams.get(this.activeSpeakerId) : undefined;
+    const currentIsHolding = !!current && now - current.lastSpokeAt < SPEAKER_HOLD_MS;
+    // The last speaker stays active through silence until someone else talks
+    if (loudestId && loudestId !== this.activeSpeakerId && !currentIsHolding) {
+      this.activeSpeakerId = loudestId;
+    }
+
+    return { levels, activeSpeakerId: this.activeSpeakerId };
+  }
+
+  dispose(): void {
+    for (const id of Array.from(this.streams.keys())) {
+      this.detach(id);
+    }
+    this.activeSpeakerId = null;
+    this.audioContext.close().catch(() => {});
+  }
+
+  private detach(id: string): void {
+    this.streams.get(id)?.meter.dispose();
+    this.streams.delete(id);
+    if (this.activeSpeakerId === id) {
+      this.activeSpeakerId = null;
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { ConnectionQuality, PeerStats } from '../types';
+
+// Cumulative counters from the previous poll, needed to turn totals into rates
+export interface StatsSnapshot {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Thresholds for the signal badge; loss hurts more than latency in a recording
+const POOR_LOSS_PERCENT = 8;
+const FAIR_LOSS_PERCENT = 2;
+const POOR_RTT_MS = 400;
+const FAIR_RTT_MS = 200;
+const FAIR_JITTER_MS = 30;
+
+export const STATS_POLL_INTERVAL_MS = 2_000;
+
+const rate = (current: number, previous: number, elapsedMs: number) =>
+  elapsedMs > 0 ? Math.max(0, ((current - previous) * 8) / elapsedMs) : null;
+
+export const classifyQuality = (
+  packetLossPercent: number | null,
+  rttMs: number | null,
+  jitterMs: number | null
+): ConnectionQuality => {
+  if (packetLossPercent === null && rttMs === null) return 'unknown';
+  const loss = packetLossPercent ?? 0;
+  const rtt = rttMs ?? 0;
+  if (loss > POOR_LOSS_PERCENT || rtt > POOR_RTT_MS) return 'poor';
+  if (loss > FAIR_LOSS_PERCENT || rtt > FAIR_RTT_MS || (jitterMs ?? 0) > FAIR_JITTER_MS) return 'fair';
+  return 'good';
+};
+
+// Reduces a getStats() report to the numbers people care about. Video
+// dimensions come from the video streams; byte and packet counts sum audio and video.
+export const computePeerStats = (
+  report: RTCStatsReport,
+  previous: StatsSnapshot | null
+): { stats: PeerStats; snapshot: StatsSnapshot } => {
+  const snapshot: StatsSnapshot = { timestamp: Date.now(), bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+  const inbound: PeerStats['inbound'] = {
+    bitrateKbps: null, packetLossPercent: null, frameWidth: null, frameHeight: null, framesPerSecond: null, jitterMs: null,
+  };
+  const outbound: PeerStats['outbound'] = {
+    bitrateKbps: null, packetLossPercent: null, frameWidth: null, frameHeight: null, framesPerSecond: null, availableBitrateKbps: null,
+  };
+  let rttMs: number | null = null;
+  let remoteFractionLost: number | null = null;
+
+  report.forEach((stat: RTCStats) => {
+    switch (stat.type) {
+      case 'inbound-rtp': {
+        const inboundStat = stat as RTCInboundRtpStreamStats;
+        snapshot.bytesReceived += inboundStat.bytesReceived ?? 0;
+        snapshot.packetsReceived += inboundStat.packetsReceived ?? 0;
+        snapshot.packetsLost += inboundStat.packetsLost ?? 0;
+        if (inboundStat.jitter !== undefined) {
+          inbound.jitterMs = Math.max(inbound.jitterMs ?? 0, inboundStat.jitter * 1000);
+        }
+        if (inboundStat.kind === 'video') {
+          inbound.frameWidth = inboundStat.frameWidth ?? inbound.frameWidth;
+          inbound.frameHeight = inboundStat.frameHeight ?? inbound.frameHeight;
+          inbound.framesPerSecond = inboundStat.framesPerSecond ?? inbound.framesPerSecond;
+        }
+        break;
+      }
+      case 'outbound-rtp': {
+        const outboundStat = stat as RTCOutboundRtpStreamStats;
+        snapshot.bytesSent += outboundStat.bytesSent ?? 0;
+        if (outboundStat.kind === 'video') {
+          outbound.frameWidth = outboundStat.frameWidth ?? outbound.frameWidth;
+          outbound.frameHeight = outboundStat.frameHeight ?? outbound.frameHeight;
+          outbound.framesPerSecond = outboundStat.framesPerSecond ?? outbound.framesPerSecond;
+        }
+        break;
+      }
+      case 'remote-inbound-rtp': {
+        const remoteStat = stat as RTCStats & { fractionLost?: number };
+        if (remoteStat.fractionLost !== undefined) {
+          remoteFractionLost = Math.max(remoteFractionLost ?? 0, remoteStat.fractionLost);
+        }
+        break;
+      }
+      case 'candidate-pair': {
+        const pairStat = stat as RTCIceCandidatePairStats;
+        if (pairStat.nominated && pairStat.state === 'succeeded') {
+          if (pairStat.currentRoundTripTime !== undefined) rttMs = pairStat.currentRoundTripTime * 1000;
+          if (pairStat.availableOutgoingBitrate !== undefined) {
+            outbound.availableBitrateKbps = pairStat.availableOutgoingBitrate / 1000;
+          }
+        }
+        break;
+      }
+    }
+  });
+
+  if (previous) {
+    const elapsedMs = snapshot.timestamp - previous.timestamp;
+    inbound.bitrateKbps = rate(snapshot.bytesReceived, previous.bytesReceived, elapsedMs);
+    outbound.bitrateKbps = rate(snapshot.bytesSent, previous.bytesSent, elapsedMs);
+    const lost = snapshot.packetsLost - previous.packetsLost;
+    const received = snapshot.packetsReceived - previous.packetsReceived;
+    if (lost + received > 0) {
+      inbound.packetLossPercent = (Math.max(0, lost) / (Math.max(0, lost) + received)) * 100;
+    }
+  }
+  if (remoteFractionLost !== null) {
+    outbound.packetLossPercent = remoteFractionLost * 100;
+  }
+
+  // Either direction being bad is what the people on the call will notice
+  const worstLoss = Math.max(inbound.packetLossPercent ?? -1, outbound.packetLossPercent ?? -1);
+  const quality = classifyQuality(worstLoss >= 0 ? worstLoss : null, rttMs, inbound.jitterMs);
+
+  return {
+    stats: { timestamp: snapshot.timestamp, inbound, outbound, rttMs, quality },
+    snapshot,
+  };
+};
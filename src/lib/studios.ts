@@ -0,0 +1,65 @@
+import {
+  listStudios as listStudiosRequest,
+  updateStudio as updateStudioRequest,
+} from '../api/studio';
+import { StudioRecord, UpdateStudioRequest } from '../api/types';
+
+// Whether a studio has anything recorded, as tracked by the backend
+export type StudioRecordingStatus = 'none' | 'in-progress' | 'available';
+
+export interface StudioSummary {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  createdBy: string;
+  participantCount: number;
+  recordingStatus: StudioRecordingStatus;
+}
+
+export interface StudioPage {
+  studios: StudioSummary[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface StudioQuery {
+  // 1-based
+  page: number;
+  limit: number;
+  search?: string;
+}
+
+export const STUDIOS_PAGE_SIZE = 10;
+
+const RECORDING_STATUSES: StudioRecordingStatus[] = ['none', 'in-progress', 'available'];
+
+const toStudioSummary = (studio: StudioRecord): StudioSummary => ({
+  id: studio.id,
+  name: studio.name ?? '',
+  description: studio.description ?? '',
+  createdAt: studio.created_at,
+  createdBy: studio.created_by,
+  participantCount: studio.participant_count ?? 0,
+  recordingStatus: RECORDING_STATUSES.includes(studio.recording_status as StudioRecordingStatus)
+    ? (studio.recording_status as StudioRecordingStatus)
+    : 'none',
+});
+
+// Studios the current user owns or has joined, newest first
+export const listStudios = async (query: StudioQuery): Promise<StudioPage> => {
+  const response = await listStudiosRequest(query);
+  const studios = response.studios ?? [];
+  return {
+    studios: studios.map(toStudioSummary),
+    total: response.total ?? studios.length,
+    page: response.page ?? query.page,
+    limit: response.limit ?? query.limit,
+  };
+};
+
+export const updateStudio = async (studioId: string, changes: UpdateStudioRequest): Promise<StudioSummary> =>
+  toStudioSummary(await updateStudioRequest(studioId, changes));
+
+export { deleteStudio } from '../api/studio';
@@ -0,0 +1,202 @@
+import { backoffDelay } from './backoff';
+import { RecordedChunk } from './recording';
+import { ChunkUploadTarget, uploadRecordingChunk } from './recordingUpload';
+
+// Every recorded chunk is written to IndexedDB before it is uploaded, so a
+// failed upload or a closed tab never loses recorded media. Pending chunks
+// are retried with exponential backoff and picked up again on next login.
+
+export interface UploadProgress {
+  total: number;
+  uploaded: number;
+  pending: number;
+}
+
+type QueuedChunkStatus = 'pending' | 'uploaded';
+
+interface QueuedChunk extends RecordedChunk, ChunkUploadTarget {
+  id: string;
+  status: QueuedChunkStatus;
+  attempts: number;
+}
+
+type ProgressListener = (progress: UploadProgress) => void;
+
+const DB_NAME = 'riverside-uploads';
+const DB_VERSION = 1;
+const STORE = 'chunks';
+const STATUS_INDEX = 'status';
+
+const BASE_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex(STATUS_INDEX, 'status');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const chunkId = (chunk: RecordedChunk) =>
+  `${chunk.recordingId}:${chunk.sequence.toString().padStart(6, '0')}`;
+
+export class UploadQueue {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private active = false;
+  private processing = false;
+  private retryTimer: number | null = null;
+  private listeners = new Set<ProgressListener>();
+  private progress: UploadProgress = { total: 0, uploaded: 0, pending: 0 };
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase();
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.db();
+    return db.transaction(STORE, mode).objectStore(STORE);
+  }
+
+  getProgress(): UploadProgress {
+    return this.progress;
+  }
+
+  subscribe(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    listener(this.progress);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async refreshProgress(): Promise<void> {
+    const store = await this.store('readonly');
+    const [total, pending] = await Promise.all([
+      requestToPromise(store.count()),
+      requestToPromise(store.index(STATUS_INDEX).count('pending')),
+    ]);
+    this.progress = { total, pending, uploaded: total - pending };
+    this.listeners.forEach(listener => listener(this.progress));
+  }
+
+  async enqueue(chunk: RecordedChunk, target: ChunkUploadTarget): Promise<void> {
+    const entry: QueuedChunk = {
+      ...chunk,
+      ...target,
+      id: chunkId(chunk),
+      status: 'pending',
+      attempts: 0,
+    };
+    try {
+      const store = await this.store('readwrite');
+      await requestToPromise(store.put(entry));
+    } catch (error) {
+      // Without IndexedDB (e.g. some private browsing modes) we can only try once
+      console.error('Failed to persist chunk, uploading directly:', error);
+      await uploadRecordingChunk(chunk, target);
+      return;
+    }
+    await this.refreshProgress();
+    this.process();
+  }
+
+  // Start (or restart) draining the queue, e.g. after login or coming back online
+  resume(): void {
+    this.active = true;
+    this.refreshProgress().catch(error => console.error('Failed to read upload queue:', error));
+    this.process();
+  }
+
+  // Skip the remaining backoff, e.g. when the browser comes back online
+  retryNow(): void {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.process();
+  }
+
+  // Stop uploading, e.g. on logout. Chunks stay persisted for the next resume.
+  pause(): void {
+    this.active = false;
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async nextPending(): Promise<QueuedChunk | null> {
+    const store = await this.store('readonly');
+    // Within a recording keys sort by sequence, so chunks go up in order
+    const cursor = await requestToPromise(store.index(STATUS_INDEX).openCursor('pending'));
+    return cursor ? (cursor.value as QueuedChunk) : null;
+  }
+
+  private async process(): Promise<void> {
+    if (!this.active || this.processing || this.retryTimer !== null) return;
+    this.processing = true;
+    try {
+      let entry = await this.nextPending();
+      while (entry && this.active) {
+        try {
+          await uploadRecordingChunk(entry, { sessionId: entry.sessionId, userId: entry.userId });
+        } catch (error) {
+          const attempts = entry.attempts + 1;
+          console.error(`Failed to upload chunk ${entry.id} (attempt ${attempts}):`, error);
+          const store = await this.store('readwrite');
+          await requestToPromise(store.put({ ...entry, attempts }));
+          this.scheduleRetry(attempts);
+          return;
+        }
+        // Drop the media but keep the record so progress still counts it
+        const uploaded: QueuedChunk = { ...entry, status: 'uploaded', blob: new Blob() };
+        const store = await this.store('readwrite');
+        await requestToPromise(store.put(uploaded));
+        await this.refreshProgress();
+        entry = await this.nextPending();
+      }
+      if (!entry) {
+        await this.clearUploaded();
+      }
+    } catch (error) {
+      console.error('Upload queue error:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private scheduleRetry(attempts: number): void {
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.process();
+    }, backoffDelay(attempts, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS));
+  }
+
+  // Once everything is on the server, forget it so the next batch counts from zero
+  private async clearUploaded(): Promise<void> {
+    const store = await this.store('readwrite');
+    const keys = await requestToPromise(store.index(STATUS_INDEX).getAllKeys('uploaded'));
+    await Promise.all(keys.map(key => requestToPromise(store.delete(key))));
+    await this.refreshProgress();
+  }
+}
+
+export const uploadQueue = new UploadQueue();
+
+// Retry straight away when connectivity comes back instead of waiting out the backoff
+window.addEventListener('online', () => {
+  uploadQueue.retryNow();
+});
@@ -22,22 +22,60 @@ export interface Session {
 }
 
 // Media-related types
+// Which local devices the call actually got; a missing one leaves its toggle disabled
+export interface MediaCapabilities {
+  audio: boolean;
+  video: boolean;
+}
+
 export interface MediaState {
   localStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  capabilities: MediaCapabilities;
+  // Why the camera or microphone is missing, when it is not by choice
+  mediaError: CallErrorReason | null;
+  // Remote streams keyed by the sending participant's user id
+  remoteStreams: Record<string, MediaStream>;
   audioEnabled: boolean;
   videoEnabled: boolean;
   isSharingScreen: boolean;
+  // Our own screen capture, sent alongside the camera rather than instead of it
+  screenStream: MediaStream | null;
+  // Screens other participants are sharing, keyed like remoteStreams
+  remoteScreenStreams: Record<string, MediaStream>;
 }
 
-// Connection states
-export enum ConnectionState {
-  DISCONNECTED = 'disconnected',
-  CONNECTING = 'connecting',
+// Where a call is in its lifecycle; see lib/callLifecycle for the allowed transitions
+export enum CallPhase {
+  IDLE = 'idle',
+  // Waiting for camera and microphone, and for TURN credentials
+  ACQUIRING_MEDIA = 'acquiring-media',
+  // Media is ready; the signaling socket is opening
+  SIGNALING = 'signaling',
+  // Signaling is up but at least one peer connection is still being set up
+  NEGOTIATING = 'negotiating',
   CONNECTED = 'connected',
-  ERROR = 'error',
+  // Connected while a local recording runs, paused or not
+  RECORDING = 'recording',
+  // Signaling dropped unexpectedly and is being re-established
+  RECONNECTING = 'reconnecting',
+  LEAVING = 'leaving',
+  // The call ended on its own; CallState.error holds the reason
+  FAILED = 'failed',
 }
 
+// Everything that can stop a call from starting or end it early; see lib/callErrors
+export type CallErrorReason =
+  | 'permission-denied'
+  | 'device-busy'
+  | 'device-not-found'
+  | 'studio-not-found'
+  | 'studio-full'
+  | 'studio-locked'
+  | 'removed'
+  | 'auth-expired'
+  | 'signaling-failed'
+  | 'unknown';
+
 // WebRTC connection status
 export interface CallState {
   sessionId: string | null;
@@ -46,7 +84,99 @@ export interface CallState {
     name: string;
     description: string;
   };
-  connectionState: ConnectionState;
-  error: string | null;
-  participants: User[];
-}
\ No newline at end of file
+  phase: CallPhase;
+  // Why the call failed, set together with CallPhase.FAILED
+  error: CallErrorReason | null;
+  participants: Participant[];
+  // User id of the studio's creator, as reported by the backend
+  hostId: string | null;
+  // A locked studio turns away anyone not already in it
+  isLocked: boolean;
+}
+
+// A user in the studio, with the media state they last announced
+export interface Participant extends User {
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  recordingStatus: RecordingStatus;
+  role: ParticipantRole;
+}
+
+export enum ParticipantRole {
+  HOST = 'host',
+  CO_HOST = 'co-host',
+  GUEST = 'guest',
+  // Watches and listens without sending media
+  VIEWER = 'viewer',
+}
+
+export type ModerationAction = 'mute' | 'stop-video' | 'remove';
+
+export interface JoinOptions {
+  // Token from an invite link, passed on to the backend
+  inviteToken?: string | null;
+  // Role the invite grants; only a viewer role changes anything client-side
+  role?: ParticipantRole;
+  // Join without asking for a camera, e.g. when it is busy or missing
+  audioOnly?: boolean;
+}
+
+// Local recording status
+export enum RecordingStatus {
+  IDLE = 'idle',
+  RECORDING = 'recording',
+  PAUSED = 'paused',
+}
+
+export interface RecordingState {
+  status: RecordingStatus;
+  recordingId: string | null;
+  // Recorded time banked before the current run; paused spans are excluded
+  accumulatedMs: number;
+  resumedAt: number | null;
+}
+
+// Devices and start-up media choices made in the lobby
+export interface MediaPreferences {
+  audioInputId: string | null;
+  videoInputId: string | null;
+  audioOutputId: string | null;
+  startMuted: boolean;
+  startWithCameraOff: boolean;
+}
+
+// Connection health for one peer, derived from RTCPeerConnection.getStats()
+export type ConnectionQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface StreamStats {
+  bitrateKbps: number | null;
+  packetLossPercent: number | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  framesPerSecond: number | null;
+}
+
+// Rung of the sending encoding ladder currently used towards a peer
+export type SendTier = 'high' | 'medium' | 'low' | 'minimal';
+
+export interface PeerStats {
+  timestamp: number;
+  // Media we receive from the peer
+  inbound: StreamStats & { jitterMs: number | null };
+  // Media we send to the peer; loss is as reported back by the peer
+  outbound: StreamStats & { availableBitrateKbps: number | null };
+  rttMs: number | null;
+  quality: ConnectionQuality;
+  // Set once adaptive bitrate has picked a rung for this peer
+  sendTier?: SendTier;
+}
+
+export interface ChatMessage {
+  id: string;
+  // Sender's user id
+  from: string;
+  // Looked up in the participant list by `from`; senders cannot choose it
+  senderName: string;
+  text: string;
+  sentAt: number;
+}